@@ -0,0 +1,131 @@
+import { PropertyReference, Reference } from './where-builder';
+
+/**
+ * Describes the kind of value produced by an aggregation
+ * - 'value': A single value (e.g. `count(n)`)
+ * - 'list': A list of values (e.g. `collect(n)`)
+ */
+export type AggregateKind = 'value' | 'list';
+
+/**
+ * Only known to this module, so that aggregations cannot be created
+ * outside of the `AggregateBuilder`
+ * @private
+ */
+const aggregateToken = Symbol('Aggregate');
+
+/**
+ * A compiled Cypher aggregation which can be projected through
+ * `Neo4jQueryBuilder.with()`.  Aggregations can only be created
+ * through the `AggregateBuilder`.
+ */
+export class Aggregate<Kind extends AggregateKind = AggregateKind> {
+  /**
+   * @param token - The module private token of the `AggregateBuilder`
+   * @param cypher - The compiled Cypher aggregation
+   * @param kind - The kind of value produced by the aggregation
+   * @throws Error if the aggregation is not created by the `AggregateBuilder`
+   */
+  constructor(
+    private readonly token: typeof aggregateToken,
+    readonly cypher: string,
+    readonly kind: Kind
+  ) {
+    if (token !== aggregateToken) {
+      throw new Error(
+        'Aggregations can only be created through the AggregateBuilder'
+      );
+    }
+  }
+}
+
+export interface AggregateOptions {
+  /**
+   * Only aggregate distinct values
+   */
+  distinct?: boolean;
+}
+
+/**
+ * Builds aggregations for the `Neo4jQueryBuilder`.  References are
+ * validated against the node variables tracked by the builder.
+ *
+ * @example
+ * builder.with((a) => ({ u: 'u', posts: a.collect('p'), total: a.count('p') }))
+ */
+export class AggregateBuilder<Nodes extends string> {
+  /**
+   * @param resolveReference - Validates a reference and returns the Cypher expression for it
+   */
+  constructor(
+    private readonly resolveReference: (reference: string) => string
+  ) {}
+
+  /**
+   * Count the number of rows, or the number of non-null values of the reference
+   */
+  count(
+    reference: Reference<Nodes> | '*' = '*',
+    options: AggregateOptions = {}
+  ) {
+    if (reference === '*') {
+      return new Aggregate(aggregateToken, 'count(*)', 'value');
+    }
+
+    return this.aggregate('count', reference, 'value', options);
+  }
+
+  /**
+   * Collect the values of the reference into a list
+   */
+  collect(reference: Reference<Nodes>, options: AggregateOptions = {}) {
+    return this.aggregate('collect', reference, 'list', options);
+  }
+
+  /**
+   * Sum the numeric values of the property
+   */
+  sum(property: PropertyReference<Nodes>, options: AggregateOptions = {}) {
+    return this.aggregate('sum', property, 'value', options);
+  }
+
+  /**
+   * Average the numeric values of the property
+   */
+  avg(property: PropertyReference<Nodes>, options: AggregateOptions = {}) {
+    return this.aggregate('avg', property, 'value', options);
+  }
+
+  /**
+   * Find the lowest value of the property
+   */
+  min(property: PropertyReference<Nodes>) {
+    return this.aggregate('min', property, 'value');
+  }
+
+  /**
+   * Find the highest value of the property
+   */
+  max(property: PropertyReference<Nodes>) {
+    return this.aggregate('max', property, 'value');
+  }
+
+  /**
+   * Create an aggregation calling a Cypher aggregating function
+   * @private
+   */
+  private aggregate<Kind extends AggregateKind>(
+    fn: string,
+    reference: string,
+    kind: Kind,
+    { distinct = false }: AggregateOptions = {}
+  ) {
+    const expression = this.resolveReference(reference);
+
+    return new Aggregate(
+      aggregateToken,
+      `${fn}(${distinct ? 'DISTINCT ' : ''}${expression})`,
+      kind
+    );
+  }
+}
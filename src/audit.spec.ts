@@ -0,0 +1,90 @@
+import { DateTime } from 'neo4j-driver';
+import {
+  DEFAULT_AUDIT_POLICY,
+  createdFields,
+  resolveAuditPolicy,
+  updatedFields
+} from './audit';
+import { ConfigurationError } from './errors';
+
+const now = new Date('2024-01-02T03:04:05.000Z');
+
+describe('audit', () => {
+  describe('resolveAuditPolicy', () => {
+    it('should fill in the defaults', () => {
+      // Act
+      const policy = resolveAuditPolicy({ createdBy: 'author' });
+
+      // Assert
+      expect(policy).toEqual({ ...DEFAULT_AUDIT_POLICY, createdBy: 'author' });
+    });
+
+    it('should disable every field', () => {
+      // Act
+      const policy = resolveAuditPolicy(false);
+
+      // Assert
+      expect(createdFields(policy, 'alice', now)).toEqual({});
+    });
+
+    it.each([
+      ['an empty field name', { updatedAt: '' }, 'audit.updatedAt'],
+      [
+        'an unknown timestamp type',
+        { timestamps: 'epoch' as 'number' },
+        'audit.timestamps'
+      ]
+    ])('should reject %s', (_description, policy, setting) => {
+      // Act & Assert
+      expect(() => resolveAuditPolicy(policy)).toThrow(
+        expect.objectContaining({ setting })
+      );
+      expect(() => resolveAuditPolicy(policy)).toThrow(ConfigurationError);
+    });
+  });
+
+  describe('createdFields', () => {
+    it('should stamp the same time as created and updated', () => {
+      // Act
+      const fields = createdFields(DEFAULT_AUDIT_POLICY, undefined, now);
+
+      // Assert
+      expect(Object.keys(fields)).toEqual(['createdAt', 'updatedAt']);
+      expect((fields.createdAt as DateTime).toStandardDate()).toEqual(now);
+      expect(fields.updatedAt).toEqual(fields.createdAt);
+    });
+
+    it('should record the actor', () => {
+      // Arrange
+      const policy = resolveAuditPolicy({ timestamps: 'string' });
+
+      // Act
+      const fields = createdFields(policy, 'alice', now);
+
+      // Assert
+      expect(fields).toEqual({
+        createdAt: '2024-01-02T03:04:05.000Z',
+        createdBy: 'alice',
+        updatedAt: '2024-01-02T03:04:05.000Z',
+        updatedBy: 'alice'
+      });
+    });
+  });
+
+  describe('updatedFields', () => {
+    it.each([
+      ['datetime', DateTime.fromStandardDate(now)],
+      ['string', '2024-01-02T03:04:05.000Z'],
+      ['number', now.getTime()]
+    ] as const)('should store %s timestamps', (timestamps, expected) => {
+      // Arrange
+      const policy = resolveAuditPolicy({ timestamps, updatedBy: false });
+
+      // Act
+      const fields = updatedFields(policy, 'alice', now);
+
+      // Assert
+      expect(fields).toEqual({ updatedAt: expected });
+    });
+  });
+});
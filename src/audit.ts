@@ -0,0 +1,182 @@
+import { types } from 'neo4j-driver';
+import { ConfigurationError } from './errors';
+
+/**
+ * Defines how audit timestamps are stored
+ * - 'datetime': A Neo4j DateTime
+ * - 'string': An ISO 8601 string
+ * - 'number': Milliseconds since the epoch
+ */
+export type AuditTimestampType = 'datetime' | 'string' | 'number';
+
+/**
+ * Controls the audit fields written to nodes.  Each field is the name of
+ * the property it is written to, or false to not write it.
+ */
+export interface AuditPolicy {
+  /**
+   * Property stamped when a node is created (default: 'createdAt')
+   */
+  createdAt: string | false;
+
+  /**
+   * Property stamped when a node is created or updated (default: 'updatedAt')
+   */
+  updatedAt: string | false;
+
+  /**
+   * Property holding the actor who created the node (default: 'createdBy').
+   * Only written when an actor is provided.
+   */
+  createdBy: string | false;
+
+  /**
+   * Property holding the actor who last updated the node (default: 'updatedBy').
+   * Only written when an actor is provided.
+   */
+  updatedBy: string | false;
+
+  /**
+   * How the timestamps are stored (default: 'datetime')
+   */
+  timestamps: AuditTimestampType;
+}
+
+export const DEFAULT_AUDIT_POLICY: AuditPolicy = {
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  createdBy: 'createdBy',
+  updatedBy: 'updatedBy',
+  timestamps: 'datetime'
+};
+
+/**
+ * A policy which does not write any audit fields
+ */
+export const DISABLED_AUDIT_POLICY: AuditPolicy = {
+  ...DEFAULT_AUDIT_POLICY,
+  createdAt: false,
+  updatedAt: false,
+  createdBy: false,
+  updatedBy: false
+};
+
+const auditFields = [
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'updatedBy'
+] as const;
+
+const timestampTypes: AuditTimestampType[] = ['datetime', 'string', 'number'];
+
+/**
+ * Merge a partial audit policy with the defaults and validate the result
+ * @param policy The audit settings to override, or false to disable auditing
+ * @returns The complete audit policy
+ * @throws ConfigurationError if a setting is invalid
+ */
+export function resolveAuditPolicy(
+  policy: Partial<AuditPolicy> | false = {}
+): AuditPolicy {
+  if (policy === false) {
+    return DISABLED_AUDIT_POLICY;
+  }
+
+  const resolved = { ...DEFAULT_AUDIT_POLICY, ...policy };
+
+  for (const field of auditFields) {
+    const property = resolved[field];
+
+    if (property !== false && (typeof property !== 'string' || !property)) {
+      throw new ConfigurationError(
+        `audit.${field}`,
+        'must be a property name or false'
+      );
+    }
+  }
+
+  if (!timestampTypes.includes(resolved.timestamps)) {
+    throw new ConfigurationError(
+      'audit.timestamps',
+      `must be one of ${timestampTypes.join(', ')}`
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Get the audit fields to write when a node is created
+ * @param policy The audit policy
+ * @param actor The actor creating the node, if known
+ * @param now The time the node is created
+ * @returns The properties to set on the new node
+ */
+export function createdFields(
+  policy: AuditPolicy,
+  actor?: string,
+  now = new Date()
+) {
+  // A new node has also been updated, so that both timestamps match
+  return {
+    ...stamp(policy.createdAt, policy.createdBy, policy, actor, now),
+    ...updatedFields(policy, actor, now)
+  };
+}
+
+/**
+ * Get the audit fields to write when a node is updated
+ * @param policy The audit policy
+ * @param actor The actor updating the node, if known
+ * @param now The time the node is updated
+ * @returns The properties to set on the node
+ */
+export function updatedFields(
+  policy: AuditPolicy,
+  actor?: string,
+  now = new Date()
+) {
+  return stamp(policy.updatedAt, policy.updatedBy, policy, actor, now);
+}
+
+/**
+ * Build the timestamp and actor properties for one audit event
+ * @private
+ */
+function stamp(
+  timestampField: string | false,
+  actorField: string | false,
+  policy: AuditPolicy,
+  actor: string | undefined,
+  now: Date
+) {
+  const fields: Record<string, unknown> = {};
+
+  if (timestampField) {
+    fields[timestampField] = formatTimestamp(now, policy.timestamps);
+  }
+
+  if (actorField && actor !== undefined) {
+    fields[actorField] = actor;
+  }
+
+  return fields;
+}
+
+/**
+ * Format a timestamp using the configured timestamp type
+ * @param now The time to format
+ * @param type How the timestamp is stored
+ * @returns The timestamp value
+ */
+export function formatTimestamp(now: Date, type: AuditTimestampType) {
+  switch (type) {
+    case 'datetime':
+      return types.DateTime.fromStandardDate(now);
+    case 'string':
+      return now.toISOString();
+    case 'number':
+      return now.getTime();
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  createAuthToken,
+  createDriverConfig,
+  resolveConnectionConfig
+} from './config';
+import { ConfigurationError } from './errors';
+
+describe('config', () => {
+  describe('resolveConnectionConfig', () => {
+    it('should use the defaults when nothing is configured', () => {
+      // Act
+      const config = resolveConnectionConfig({}, {});
+
+      // Assert
+      expect(config).toEqual({
+        uri: 'bolt://localhost:7687',
+        auth: { type: 'none' },
+        database: undefined
+      });
+    });
+
+    it('should fall back to the environment variables', () => {
+      // Arrange
+      const env = {
+        NEO4J_CONNECTION_STRING: 'neo4j://db:7687',
+        NEO4J_USERNAME: 'admin',
+        NEO4J_PASSWORD: 'secret',
+        NEO4J_DATABASE: 'movies'
+      };
+
+      // Act
+      const config = resolveConnectionConfig({}, env);
+
+      // Assert
+      expect(config).toEqual({
+        uri: 'neo4j://db:7687',
+        auth: { type: 'basic', username: 'admin', password: 'secret' },
+        database: 'movies'
+      });
+    });
+
+    it('should prefer a bearer token from the environment', () => {
+      // Arrange
+      const env = { NEO4J_BEARER_TOKEN: 'token', NEO4J_PASSWORD: 'secret' };
+
+      // Act
+      const config = resolveConnectionConfig({}, env);
+
+      // Assert
+      expect(config.auth).toEqual({ type: 'bearer', token: 'token' });
+    });
+
+    it('should prefer the provided config over the environment variables', () => {
+      // Arrange
+      const env = {
+        NEO4J_CONNECTION_STRING: 'neo4j://db:7687',
+        NEO4J_PASSWORD: 'secret'
+      };
+
+      // Act
+      const config = resolveConnectionConfig(
+        {
+          uri: 'bolt://other:7687',
+          auth: { type: 'none' },
+          database: 'other'
+        },
+        env
+      );
+
+      // Assert
+      expect(config).toEqual({
+        uri: 'bolt://other:7687',
+        auth: { type: 'none' },
+        database: 'other'
+      });
+    });
+
+    it.each([
+      ['an unsupported scheme', { uri: 'http://localhost:7474' }, 'uri'],
+      ['a missing scheme', { uri: 'localhost:7687' }, 'uri'],
+      [
+        'encryption settings with a secure scheme',
+        { uri: 'neo4j+s://db:7687', encrypted: true },
+        'encrypted'
+      ],
+      [
+        'basic auth without a password',
+        { auth: { type: 'basic', username: 'neo4j', password: '' } },
+        'auth'
+      ],
+      [
+        'bearer auth without a token',
+        { auth: { type: 'bearer', token: '' } },
+        'auth'
+      ],
+      ['an unknown auth type', { auth: { type: 'kerberos' } }, 'auth'],
+      ['an empty database', { database: ' ' }, 'database'],
+      ['an empty connection name', { name: '' }, 'name'],
+      [
+        'a negative pool size',
+        { maxConnectionPoolSize: -1 },
+        'maxConnectionPoolSize'
+      ],
+      ['a fractional timeout', { connectionTimeout: 1.5 }, 'connectionTimeout']
+    ])('should reject %s', (_description, config, setting) => {
+      // Act & Assert
+      expect(() => resolveConnectionConfig(config as never, {})).toThrow(
+        ConfigurationError
+      );
+      expect(() => resolveConnectionConfig(config as never, {})).toThrow(
+        `Invalid Neo4j configuration "${setting}"`
+      );
+    });
+  });
+
+  describe('createAuthToken', () => {
+    it('should create a basic auth token', () => {
+      // Act
+      const token = createAuthToken({
+        uri: 'bolt://localhost:7687',
+        auth: { type: 'basic', username: 'neo4j', password: 'secret' }
+      });
+
+      // Assert
+      expect(token).toMatchObject({
+        scheme: 'basic',
+        principal: 'neo4j',
+        credentials: 'secret'
+      });
+    });
+
+    it('should create a bearer auth token', () => {
+      // Act
+      const token = createAuthToken({
+        uri: 'bolt://localhost:7687',
+        auth: { type: 'bearer', token: 'token' }
+      });
+
+      // Assert
+      expect(token).toMatchObject({ scheme: 'bearer', credentials: 'token' });
+    });
+
+    it('should create an auth token without credentials', () => {
+      // Act
+      const token = createAuthToken({
+        uri: 'bolt://localhost:7687',
+        auth: { type: 'none' }
+      });
+
+      // Assert
+      expect(token).toMatchObject({ scheme: 'none' });
+    });
+  });
+
+  describe('createDriverConfig', () => {
+    it('should only include the configured driver settings', () => {
+      // Act
+      const driverConfig = createDriverConfig({
+        uri: 'bolt://localhost:7687',
+        auth: { type: 'none' },
+        database: 'movies',
+        encrypted: true,
+        trust: 'TRUST_SYSTEM_CA_SIGNED_CERTIFICATES',
+        maxConnectionPoolSize: 10,
+        connectionTimeout: 5000
+      });
+
+      // Assert
+      expect(driverConfig).toEqual({
+        encrypted: true,
+        trust: 'TRUST_SYSTEM_CA_SIGNED_CERTIFICATES',
+        maxConnectionPoolSize: 10,
+        connectionTimeout: 5000
+      });
+    });
+  });
+});
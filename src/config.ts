@@ -0,0 +1,261 @@
+import { AuthToken, Config, auth } from 'neo4j-driver';
+import { ConfigurationError } from './errors';
+
+/**
+ * Defines how the driver authenticates with the database
+ * - 'basic': Username and password authentication
+ * - 'bearer': Base64 encoded token authentication (e.g. SSO)
+ * - 'none': No authentication
+ */
+export type Neo4jAuthConfig =
+  | { type: 'basic'; username: string; password: string; realm?: string }
+  | { type: 'bearer'; token: string }
+  | { type: 'none' };
+
+/**
+ * Options used to connect to a Neo4j database.  Any values which are not
+ * provided fall back to the documented environment variables.
+ */
+export interface Neo4jConnectionConfig {
+  /**
+   * Name used to register the connection (default: 'default')
+   */
+  name?: string;
+
+  /**
+   * Connection URL for Neo4j (env: NEO4J_CONNECTION_STRING, default: bolt://localhost:7687)
+   */
+  uri?: string;
+
+  /**
+   * Authentication strategy (env: NEO4J_USERNAME/NEO4J_PASSWORD or NEO4J_BEARER_TOKEN)
+   */
+  auth?: Neo4jAuthConfig;
+
+  /**
+   * Name of the database sessions are opened against (env: NEO4J_DATABASE, default: the server default)
+   */
+  database?: string;
+
+  /**
+   * Whether to encrypt the connection.  Cannot be used with `+s` or `+ssc` URIs.
+   */
+  encrypted?: boolean;
+
+  /**
+   * How to verify the server certificate.  Cannot be used with `+s` or `+ssc` URIs.
+   */
+  trust?: Config['trust'];
+
+  /**
+   * Certificates to trust when using TRUST_CUSTOM_CA_SIGNED_CERTIFICATES
+   */
+  trustedCertificates?: string[];
+
+  /**
+   * Maximum number of connections per host
+   */
+  maxConnectionPoolSize?: number;
+
+  /**
+   * Milliseconds to wait for a connection to be established
+   */
+  connectionTimeout?: number;
+
+  /**
+   * Milliseconds to wait for a connection from the pool
+   */
+  connectionAcquisitionTimeout?: number;
+
+  /**
+   * Milliseconds to retry managed transactions before failing
+   */
+  maxTransactionRetryTime?: number;
+}
+
+/**
+ * Connection configuration after applying the environment variables
+ */
+export type ResolvedConnectionConfig = Neo4jConnectionConfig &
+  Required<Pick<Neo4jConnectionConfig, 'uri' | 'auth'>>;
+
+const supportedSchemes = [
+  'bolt',
+  'bolt+s',
+  'bolt+ssc',
+  'neo4j',
+  'neo4j+s',
+  'neo4j+ssc'
+];
+
+/**
+ * Merge the connection config with the environment variables and validate the result
+ * @param config The connection config provided by the application
+ * @param env The environment variables to fall back to
+ * @returns The validated connection config
+ * @throws ConfigurationError if any of the settings are invalid
+ */
+export function resolveConnectionConfig(
+  config: Neo4jConnectionConfig = {},
+  env: NodeJS.ProcessEnv = process.env
+): ResolvedConnectionConfig {
+  const resolved: ResolvedConnectionConfig = {
+    ...config,
+    uri: config.uri ?? env.NEO4J_CONNECTION_STRING ?? 'bolt://localhost:7687',
+    auth: config.auth ?? resolveAuthFromEnv(env),
+    database: config.database ?? env.NEO4J_DATABASE
+  };
+
+  // Validate the connection string
+  const [scheme] = resolved.uri.split('://');
+  if (!resolved.uri.includes('://') || !supportedSchemes.includes(scheme)) {
+    throw new ConfigurationError(
+      'uri',
+      `must start with one of ${supportedSchemes.map((s) => `${s}://`).join(', ')}`
+    );
+  }
+
+  if (
+    scheme.includes('+') &&
+    (resolved.encrypted !== undefined || resolved.trust !== undefined)
+  ) {
+    throw new ConfigurationError(
+      'encrypted',
+      `encryption and trust settings cannot be used with the ${scheme}:// scheme`
+    );
+  }
+
+  // Validate the credentials
+  switch (resolved.auth.type) {
+    case 'basic':
+      if (!resolved.auth.username || !resolved.auth.password) {
+        throw new ConfigurationError(
+          'auth',
+          'basic authentication requires a username and password'
+        );
+      }
+      break;
+    case 'bearer':
+      if (!resolved.auth.token) {
+        throw new ConfigurationError(
+          'auth',
+          'bearer authentication requires a token'
+        );
+      }
+      break;
+    case 'none':
+      break;
+    default:
+      throw new ConfigurationError(
+        'auth',
+        'type must be one of basic, bearer or none'
+      );
+  }
+
+  if (resolved.name !== undefined && resolved.name.trim() === '') {
+    throw new ConfigurationError('name', 'cannot be empty');
+  }
+
+  if (resolved.database !== undefined && resolved.database.trim() === '') {
+    throw new ConfigurationError('database', 'cannot be empty');
+  }
+
+  // Validate the pool size and timeouts
+  const numericSettings = [
+    'maxConnectionPoolSize',
+    'connectionTimeout',
+    'connectionAcquisitionTimeout',
+    'maxTransactionRetryTime'
+  ] as const;
+
+  for (const setting of numericSettings) {
+    const value = resolved[setting];
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      throw new ConfigurationError(setting, 'must be a positive integer');
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Create the driver auth token for the connection config
+ * @param config The resolved connection config
+ * @returns The auth token passed to the driver
+ */
+export function createAuthToken(config: ResolvedConnectionConfig): AuthToken {
+  switch (config.auth.type) {
+    case 'basic':
+      return auth.basic(
+        config.auth.username,
+        config.auth.password,
+        config.auth.realm
+      );
+    case 'bearer':
+      return auth.bearer(config.auth.token);
+    case 'none':
+      // The driver does not export a helper for disabled authentication
+      return { scheme: 'none', credentials: '' };
+  }
+}
+
+/**
+ * Create the driver config for the connection config
+ * @param config The resolved connection config
+ * @returns The config passed to the driver
+ */
+export function createDriverConfig(config: ResolvedConnectionConfig): Config {
+  const driverConfig: Config = {};
+
+  if (config.encrypted !== undefined) {
+    driverConfig.encrypted = config.encrypted;
+  }
+
+  if (config.trust !== undefined) {
+    driverConfig.trust = config.trust;
+  }
+
+  if (config.trustedCertificates !== undefined) {
+    driverConfig.trustedCertificates = config.trustedCertificates;
+  }
+
+  if (config.maxConnectionPoolSize !== undefined) {
+    driverConfig.maxConnectionPoolSize = config.maxConnectionPoolSize;
+  }
+
+  if (config.connectionTimeout !== undefined) {
+    driverConfig.connectionTimeout = config.connectionTimeout;
+  }
+
+  if (config.connectionAcquisitionTimeout !== undefined) {
+    driverConfig.connectionAcquisitionTimeout =
+      config.connectionAcquisitionTimeout;
+  }
+
+  if (config.maxTransactionRetryTime !== undefined) {
+    driverConfig.maxTransactionRetryTime = config.maxTransactionRetryTime;
+  }
+
+  return driverConfig;
+}
+
+/**
+ * Determine the auth strategy from the environment variables
+ * @param env The environment variables
+ * @returns The auth config
+ */
+function resolveAuthFromEnv(env: NodeJS.ProcessEnv): Neo4jAuthConfig {
+  if (env.NEO4J_BEARER_TOKEN) {
+    return { type: 'bearer', token: env.NEO4J_BEARER_TOKEN };
+  }
+
+  if (env.NEO4J_USERNAME || env.NEO4J_PASSWORD) {
+    return {
+      type: 'basic',
+      username: env.NEO4J_USERNAME ?? 'neo4j',
+      password: env.NEO4J_PASSWORD ?? ''
+    };
+  }
+
+  return { type: 'none' };
+}
@@ -0,0 +1,162 @@
+import { DateTime, Integer, int, isDateTime, isInt, types } from 'neo4j-driver';
+import { Neo4jValueConverter, encodeValue } from './converter';
+import { ConversionError } from './errors';
+
+describe('converter', () => {
+  describe('Neo4jValueConverter', () => {
+    describe('fromNeo4j', () => {
+      it.each([
+        ['number', 42],
+        ['bigint', BigInt(42)],
+        ['string', '42']
+      ] as const)('should convert integers to a %s', (integers, expected) => {
+        // Arrange
+        const converter = new Neo4jValueConverter({ integers });
+
+        // Act & Assert
+        expect(converter.fromNeo4j(int(42))).toBe(expected);
+      });
+
+      it('should throw when an integer is outside the safe number range', () => {
+        // Arrange
+        const converter = new Neo4jValueConverter();
+
+        // Act & Assert
+        expect(() => converter.fromNeo4j(int('9007199254740993'))).toThrow(
+          ConversionError
+        );
+      });
+
+      it('should convert large integers to a bigint without losing precision', () => {
+        // Arrange
+        const converter = new Neo4jValueConverter({ integers: 'bigint' });
+
+        // Act & Assert
+        expect(converter.fromNeo4j(int('9007199254740993'))).toBe(
+          BigInt('9007199254740993')
+        );
+      });
+
+      it.each([
+        [
+          'a date time',
+          new types.DateTime(2024, 1, 2, 3, 4, 5, 0, 0),
+          '2024-01-02T03:04:05Z'
+        ],
+        [
+          'a local date time',
+          new types.LocalDateTime(2024, 1, 2, 3, 4, 5, 0),
+          '2024-01-02T03:04:05'
+        ],
+        ['a date', new types.Date(2024, 1, 2), '2024-01-02'],
+        ['a time', new types.Time(3, 4, 5, 0, 3600), '03:04:05+01:00'],
+        ['a local time', new types.LocalTime(3, 4, 5, 0), '03:04:05'],
+        ['a duration', new types.Duration(1, 2, 3, 0), 'P1M2DT3S']
+      ])('should convert %s to an ISO string', (_description, value, iso) => {
+        // Arrange
+        const converter = new Neo4jValueConverter();
+
+        // Act & Assert
+        expect(converter.fromNeo4j(value)).toBe(iso);
+      });
+
+      it('should convert date times to a JavaScript Date', () => {
+        // Arrange
+        const converter = new Neo4jValueConverter({ temporals: 'date' });
+        const dateTime = new types.DateTime(2024, 1, 2, 3, 4, 5, 0, 0);
+
+        // Act
+        const date = converter.fromNeo4j(dateTime);
+
+        // Assert
+        expect(date).toEqual(new Date('2024-01-02T03:04:05Z'));
+      });
+
+      it('should keep durations as ISO strings in the date mode', () => {
+        // Arrange
+        const converter = new Neo4jValueConverter({ temporals: 'date' });
+
+        // Act & Assert
+        expect(converter.fromNeo4j(new types.Duration(0, 1, 0, 0))).toBe(
+          'P0M1DT0S'
+        );
+      });
+
+      it.each([
+        [
+          'a 2D point',
+          new types.Point(int(7203), 1, 2),
+          { x: 1, y: 2, srid: 7203 }
+        ],
+        [
+          'a 3D point',
+          new types.Point(int(4979), 1, 2, 3),
+          { x: 1, y: 2, z: 3, srid: 4979 }
+        ]
+      ])('should convert %s to an object', (_description, point, expected) => {
+        // Arrange
+        const converter = new Neo4jValueConverter();
+
+        // Act & Assert
+        expect(converter.fromNeo4j(point)).toEqual(expected);
+      });
+    });
+
+    describe('toNeo4j', () => {
+      it('should convert a JavaScript Date to a date time', () => {
+        // Arrange
+        const converter = new Neo4jValueConverter();
+        const date = new Date('2024-01-02T03:04:05Z');
+
+        // Act
+        const value = converter.toNeo4j(date);
+
+        // Assert
+        expect(isDateTime(value)).toBe(true);
+        expect((value as DateTime).toStandardDate()).toEqual(date);
+      });
+
+      it('should convert a bigint to an integer', () => {
+        // Arrange
+        const converter = new Neo4jValueConverter();
+
+        // Act
+        const value = converter.toNeo4j(BigInt('9007199254740993'));
+
+        // Assert
+        expect(isInt(value)).toBe(true);
+        expect((value as Integer).toString()).toBe('9007199254740993');
+      });
+
+      it('should throw when a bigint is outside the integer range', () => {
+        // Arrange
+        const converter = new Neo4jValueConverter();
+
+        // Act & Assert
+        expect(() => converter.toNeo4j(BigInt('9223372036854775808'))).toThrow(
+          ConversionError
+        );
+      });
+    });
+  });
+
+  describe('encodeValue', () => {
+    it('should convert the values of lists and maps', () => {
+      // Arrange
+      const params = {
+        data: { visits: BigInt(3), tags: ['a'] },
+        dates: [new Date('2024-01-02T03:04:05Z')],
+        limit: int(10)
+      };
+
+      // Act
+      const encoded = encodeValue(params) as typeof params;
+
+      // Assert
+      expect(encoded.data.visits).toEqual(int(3));
+      expect(encoded.data.tags).toEqual(['a']);
+      expect(isDateTime(encoded.dates[0])).toBe(true);
+      expect(encoded.limit).toBe(params.limit);
+    });
+  });
+});
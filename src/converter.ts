@@ -0,0 +1,218 @@
+import {
+  Integer,
+  int,
+  isDate,
+  isDateTime,
+  isDuration,
+  isInt,
+  isLocalDateTime,
+  isLocalTime,
+  isPoint,
+  isTime,
+  types
+} from 'neo4j-driver';
+import { ConversionError } from './errors';
+
+/**
+ * Defines how Neo4j integers are returned
+ * - 'number': A JavaScript number, throwing if the value is outside the safe range
+ * - 'bigint': A JavaScript bigint
+ * - 'string': A decimal string
+ */
+export type IntegerMode = 'number' | 'bigint' | 'string';
+
+/**
+ * Defines how Neo4j dates and date times are returned
+ * - 'string': An ISO 8601 string
+ * - 'date': A JavaScript `Date`
+ *
+ * Times and durations cannot be represented by a JavaScript `Date`,
+ * so they are always returned as ISO 8601 strings.
+ */
+export type TemporalMode = 'string' | 'date';
+
+export interface ConverterOptions {
+  /**
+   * How integers are returned (default: 'number')
+   */
+  integers?: IntegerMode;
+
+  /**
+   * How dates and date times are returned (default: 'string')
+   */
+  temporals?: TemporalMode;
+}
+
+/**
+ * A spatial point returned by Neo4j
+ */
+export interface PointValue {
+  x: number;
+  y: number;
+  z?: number;
+  srid: number;
+}
+
+/**
+ * Converts single values between their Neo4j and JavaScript representations.
+ * Lists, maps, nodes and relationships are traversed by the caller, so
+ * converters only need to handle scalar values.
+ */
+export interface ValueConverter {
+  /**
+   * Convert a value returned by the driver
+   * @param value - The value returned by the driver
+   * @returns The JavaScript value
+   */
+  fromNeo4j(value: unknown): unknown;
+
+  /**
+   * Convert a value before it is sent to the driver as a parameter
+   * @param value - The JavaScript value
+   * @returns The value sent to the driver
+   */
+  toNeo4j(value: unknown): unknown;
+}
+
+const minInt64 = BigInt('-9223372036854775808');
+const maxInt64 = BigInt('9223372036854775807');
+
+/**
+ * The default converter.  Integers, temporals and points are converted to
+ * plain JavaScript values on read, and `Date` and `bigint` values are
+ * converted to Neo4j date times and integers on write.
+ */
+export class Neo4jValueConverter implements ValueConverter {
+  private readonly integers: IntegerMode;
+  private readonly temporals: TemporalMode;
+
+  /**
+   * @param options - How integers and temporals are returned
+   */
+  constructor(options: ConverterOptions = {}) {
+    this.integers = options.integers ?? 'number';
+    this.temporals = options.temporals ?? 'string';
+  }
+
+  fromNeo4j(value: unknown): unknown {
+    if (isInt(value)) {
+      return this.fromInteger(value);
+    }
+
+    if (isDateTime(value) || isLocalDateTime(value) || isDate(value)) {
+      return this.temporals === 'date'
+        ? value.toStandardDate()
+        : value.toString();
+    }
+
+    if (isTime(value) || isLocalTime(value) || isDuration(value)) {
+      return value.toString();
+    }
+
+    if (isPoint(value)) {
+      const point: PointValue = {
+        x: value.x,
+        y: value.y,
+        srid: Number(value.srid)
+      };
+
+      if (value.z !== undefined) {
+        point.z = value.z;
+      }
+
+      return point;
+    }
+
+    return value;
+  }
+
+  toNeo4j(value: unknown): unknown {
+    if (value instanceof Date) {
+      return types.DateTime.fromStandardDate(value);
+    }
+
+    if (typeof value === 'bigint') {
+      if (value < minInt64 || value > maxInt64) {
+        throw new ConversionError(
+          `${value}n`,
+          'bigint is outside the range of a Neo4j integer'
+        );
+      }
+
+      return int(value);
+    }
+
+    return value;
+  }
+
+  /**
+   * Convert a Neo4j integer using the configured integer mode
+   * @private
+   */
+  private fromInteger(value: Integer) {
+    switch (this.integers) {
+      case 'bigint':
+        return value.toBigInt();
+      case 'string':
+        return value.toString();
+      case 'number':
+        if (!value.inSafeRange()) {
+          throw new ConversionError(
+            value.toString(),
+            'integer is outside the safe range of a JavaScript number, use the bigint or string integer mode'
+          );
+        }
+
+        return value.toNumber();
+    }
+  }
+}
+
+/**
+ * Converter used when none is configured
+ */
+export const defaultConverter: ValueConverter = new Neo4jValueConverter();
+
+/**
+ * Convert a parameter before it is sent to the driver, traversing
+ * lists and maps
+ * @param value The parameter value
+ * @param converter The converter applied to each value
+ * @returns The converted parameter
+ */
+export function encodeValue(
+  value: unknown,
+  converter: ValueConverter = defaultConverter
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((entry) => encodeValue(entry, converter));
+  }
+
+  if (isPlainObject(value)) {
+    const encoded: Record<string, unknown> = {};
+
+    for (const [key, entry] of Object.entries(value)) {
+      encoded[key] = encodeValue(entry, converter);
+    }
+
+    return encoded;
+  }
+
+  return converter.toNeo4j(value);
+}
+
+/**
+ * Check if a value is a plain object rather than a class instance such
+ * as an Integer, a temporal or a point
+ * @param value The value to check
+ */
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
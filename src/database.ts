@@ -7,9 +7,32 @@
  */
 export type RelationshipDirections = 'from' | 'to' | 'both' | 'none';
 
+/**
+ * Defines the sort order used when ordering query results
+ */
+export type SortDirection = 'ASC' | 'DESC';
+
+/**
+ * The types which can be used to identify a record
+ */
+export type RecordId = string | number;
+
+/**
+ * Defines whether a query only reads data or may also write data
+ * - 'READ': The query only reads data and can be routed to a read replica
+ * - 'WRITE': The query may write data and must be routed to a writer
+ */
+export type AccessMode = 'READ' | 'WRITE';
+
 export interface QueryOptions<Session, Transaction> {
   session?: Session;
   transaction?: Transaction;
+
+  /**
+   * Whether the query only reads data.  Ignored when a session or
+   * transaction is provided, as they have already been routed.
+   */
+  accessMode?: AccessMode;
 }
 
 export interface TransactionInput {
@@ -17,17 +40,235 @@ export interface TransactionInput {
   params: Record<string, unknown>;
 }
 
+/**
+ * Relationship types to load along with the selected records, keyed by
+ * relationship type with the direction of the relationship as the value
+ */
+export type JoinInterface = Record<string, RelationshipDirections>;
+
+/**
+ * The related records loaded through `QueryInterface.join`, nested under
+ * the relationship type they were loaded through
+ * @template Join - The relationship types which were joined
+ * @template Related - The type of the related records
+ */
+export type Joined<Join extends JoinInterface, Related = object> = {
+  [Type in keyof Join]: Related[];
+};
+
 /**
  * Interface for defining query parameters when selecting data from a database
  * @template T - The type of object being queried
+ * @template Join - The relationship types to load with the records
  */
-export interface QueryInterface<T> {
+export interface QueryInterface<T, Join extends JoinInterface = JoinInterface> {
   /**
    * Optional filter conditions for the query
    * Keys are property names of T, values are the conditions to match
    */
   where?: Record<keyof T, unknown>;
-  join?: Record<string, RelationshipDirections>;
+
+  /**
+   * Optional relationship types to load the related records of in the same
+   * query.  The related records are nested under the relationship type.
+   */
+  join?: Join;
+
+  /**
+   * Optional sort order for the results
+   * Keys are property names of T, applied in insertion order
+   */
+  orderBy?: Partial<Record<keyof T, SortDirection>>;
+
+  /**
+   * Optional maximum number of records to return
+   */
+  limit?: number;
+
+  /**
+   * Optional number of records to skip
+   */
+  offset?: number;
+
+  /**
+   * Optional opaque cursor returned by `selectPage` as `nextCursor`.
+   * Must be used with the same `where` and `orderBy` as the original query.
+   */
+  cursor?: string;
+
+  /**
+   * Also return records which have been soft-deleted
+   */
+  includeDeleted?: boolean;
+}
+
+/**
+ * A single page of results returned by `Database.selectPage`
+ * @template T - The type of the records in the page
+ */
+export interface Page<T> {
+  /**
+   * The records in the current page
+   */
+  items: T[];
+
+  /**
+   * The total number of records matching the query (ignoring paging)
+   */
+  total: number;
+
+  /**
+   * Cursor for the next page, or null when there are no more records
+   */
+  nextCursor: string | null;
+}
+
+/**
+ * Labels of the nodes at either end of a relationship.  Providing them
+ * lets the database find the nodes using the indexes of the label.
+ */
+export interface RelationshipEndpoints {
+  sourceLabel?: string;
+  targetLabel?: string;
+}
+
+/**
+ * Options for creating a relationship with `Database.join`
+ */
+export interface JoinOptions extends RelationshipEndpoints {
+  /**
+   * Properties to set on the relationship
+   */
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Interface for selecting relationships by their type and endpoints
+ * @template T - The type of the relationship properties
+ */
+export interface RelationshipQuery<T> extends RelationshipEndpoints {
+  /**
+   * ID of the source node
+   */
+  source?: RecordId;
+
+  /**
+   * ID of the target node
+   */
+  target?: RecordId;
+
+  /**
+   * Direction of the relationship from the source node (default: 'from')
+   */
+  direction?: RelationshipDirections;
+
+  /**
+   * Properties the relationships must have
+   */
+  where?: Partial<Record<keyof T, unknown>>;
+
+  /**
+   * Optional maximum number of relationships to return
+   */
+  limit?: number;
+
+  /**
+   * Also return relationships which are hidden or connect soft-deleted nodes
+   */
+  includeDeleted?: boolean;
+}
+
+/**
+ * Options for the bulk operations of a `Database`
+ */
+export interface BulkOptions {
+  /**
+   * Number of records written by each query (default: 1000)
+   */
+  chunkSize?: number;
+
+  /**
+   * Called after each chunk has been written or has failed
+   */
+  onProgress?: (progress: BulkProgress) => void;
+}
+
+/**
+ * The progress of a bulk operation, reported after each chunk
+ */
+export interface BulkProgress {
+  /**
+   * Index of the chunk which finished, starting at 0
+   */
+  chunk: number;
+
+  /**
+   * Total number of chunks
+   */
+  chunks: number;
+
+  /**
+   * Number of records in the chunks which have finished
+   */
+  processed: number;
+
+  /**
+   * Number of records in the chunks which have failed
+   */
+  failed: number;
+
+  /**
+   * Total number of records
+   */
+  total: number;
+}
+
+/**
+ * A chunk of a bulk operation which failed
+ * @template Row - The type of the input records
+ */
+export interface BulkError<Row> {
+  /**
+   * Index of the chunk, starting at 0
+   */
+  chunk: number;
+
+  /**
+   * Index of the first record of the chunk in the input
+   */
+  offset: number;
+
+  /**
+   * The records of the chunk, which can be passed to the bulk operation again
+   */
+  rows: Row[];
+
+  error: Error;
+}
+
+/**
+ * The outcome of a bulk operation.  Each chunk is written in its own
+ * transaction, so the chunks which failed can be retried on their own.
+ * @template T - The type of the records returned by the operation
+ * @template Row - The type of the input records
+ */
+export interface BulkResult<T, Row> {
+  /**
+   * The records returned by the chunks which succeeded
+   */
+  results: T[];
+
+  /**
+   * Number of input records in the chunks which succeeded
+   */
+  succeeded: number;
+
+  /**
+   * Number of input records in the chunks which failed
+   */
+  failed: number;
+
+  errors: BulkError<Row>[];
 }
 
 /**
@@ -70,6 +311,20 @@ export abstract class Database<
     options?: Options
   ): Promise<T>;
 
+  /**
+   * Insert many records into the specified table in chunks
+   * @template T - The type of the inserted records
+   * @param table - The name of the table to insert into
+   * @param rows - The data objects to insert
+   * @param options - The chunk size, progress callback and query options
+   * @returns A promise that resolves to the inserted records and the chunks which failed
+   */
+  abstract insertMany<T extends object = object>(
+    table: string,
+    rows: object[],
+    options?: Options & BulkOptions
+  ): Promise<BulkResult<T, object>>;
+
   /**
    * Create a relationship between two nodes
    * @param relationshipLabel - The label for the relationship
@@ -80,12 +335,61 @@ export abstract class Database<
    */
   abstract join(
     relationshipLabel: string,
-    source: number,
-    target: number,
+    source: RecordId,
+    target: RecordId,
     direction?: RelationshipDirections,
-    options?: Options
+    options?: Options & JoinOptions
+  ): Promise<boolean>;
+
+  /**
+   * Delete the relationships of a type between two nodes
+   * @param relationshipLabel - The label of the relationship
+   * @param source - The ID of the source node
+   * @param target - The ID of the target node
+   * @param direction - The direction of the relationship
+   * @returns A promise that resolves to true if a relationship was deleted
+   */
+  abstract unjoin(
+    relationshipLabel: string,
+    source: RecordId,
+    target: RecordId,
+    direction?: RelationshipDirections,
+    options?: Options & RelationshipEndpoints
   ): Promise<boolean>;
 
+  /**
+   * Update the properties of the relationships of a type between two nodes
+   * @template T - The type of the relationship properties
+   * @param relationshipLabel - The label of the relationship
+   * @param source - The ID of the source node
+   * @param target - The ID of the target node
+   * @param data - The properties to update
+   * @param direction - The direction of the relationship
+   * @returns A promise that resolves to the updated relationships
+   */
+  abstract updateRelationship<T extends object = object>(
+    relationshipLabel: string,
+    source: RecordId,
+    target: RecordId,
+    data: object,
+    direction?: RelationshipDirections,
+    options?: Options & RelationshipEndpoints
+  ): Promise<T[]>;
+
+  /**
+   * Select the relationships of a type, optionally filtered by their
+   * endpoints and properties
+   * @template T - The type of the relationship properties
+   * @param relationshipLabel - The label of the relationships
+   * @param query - The endpoints and properties to filter by
+   * @returns A promise that resolves to the matching relationships
+   */
+  abstract selectRelationships<T extends object = object>(
+    relationshipLabel: string,
+    query?: RelationshipQuery<T>,
+    options?: Options
+  ): Promise<T[]>;
+
   /**
    * Select a record from the specified table based on query parameters
    * @template T - The type of object to be returned
@@ -99,6 +403,20 @@ export abstract class Database<
     options?: Options
   ): Promise<T[]>;
 
+  /**
+   * Select a page of records from the specified table along with the total
+   * number of matching records and a cursor for the next page
+   * @template T - The type of object to be returned
+   * @param table - The name of the table to select from
+   * @param query - The query parameters to filter, sort and page results
+   * @returns A promise that resolves to the page of records
+   */
+  abstract selectPage<T extends object = object>(
+    table: string,
+    query: QueryInterface<T>,
+    options?: Options
+  ): Promise<Page<T>>;
+
   /**
    * Update an existing record in the specified table
    * @template T - The type of the data object being updated
@@ -125,11 +443,40 @@ export abstract class Database<
    */
   abstract upsert<T = unknown>(
     table: string,
-    id: number,
+    id: RecordId,
     data: object,
     options?: Options
   ): Promise<T>;
 
+  /**
+   * Insert or update many records in chunks.  Each record must contain
+   * its unique identifier.
+   * @template T - The type of the upserted records
+   * @param table - The name of the table to upsert into
+   * @param rows - The data objects to insert or update
+   * @param options - The chunk size, progress callback and query options
+   * @returns A promise that resolves to the upserted records and the chunks which failed
+   */
+  abstract upsertMany<T = unknown>(
+    table: string,
+    rows: object[],
+    options?: Options & BulkOptions
+  ): Promise<BulkResult<T, object>>;
+
+  /**
+   * Delete many records from the specified table by their IDs in chunks
+   * @template Key - The type of the ID field (defaults to number)
+   * @param table - The name of the table to delete from
+   * @param ids - The unique identifiers of the records to delete
+   * @param options - The chunk size, progress callback and query options
+   * @returns A promise that resolves to the IDs which were deleted and the chunks which failed
+   */
+  abstract deleteMany<Key = number>(
+    table: string,
+    ids: Key[],
+    options?: Options & BulkOptions
+  ): Promise<BulkResult<Key, Key>>;
+
   /**
    * Execute a database transaction that can contain multiple operations.
    * This executes the provided transaction callback, passing it the transaction
@@ -142,6 +489,18 @@ export abstract class Database<
     callback: (transaction: Transaction) => Promise<r>
   ): Promise<r>;
 
+  /**
+   * Execute a read-only database transaction.  This behaves like
+   * `transaction()` but allows the database to route the transaction
+   * to a read replica.
+   * @template R - The type of data being returned by the transaction
+   * @param callback - The function to execute within the transaction
+   * @returns A promise that resolves to the result of the callback
+   */
+  abstract readTransaction<R>(
+    callback: (transaction: Transaction) => Promise<R>
+  ): Promise<R>;
+
   /**
    * Execute a raw query against the database
    * This allows for custom queries that aren't covered by the standard CRUD operations
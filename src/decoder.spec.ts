@@ -0,0 +1,170 @@
+import {
+  Node,
+  Path,
+  PathSegment,
+  QueryResult,
+  Record as Neo4jRecord,
+  Relationship,
+  int,
+  types
+} from 'neo4j-driver';
+import {
+  decodeNode,
+  decodePath,
+  decodeRelationship,
+  decodeResult,
+  decodeValue
+} from './decoder';
+import { Neo4jValueConverter } from './converter';
+
+const alice = new Node(int(1), ['User'], { name: 'Alice' });
+const bob = new Node(int(2), ['User'], { name: 'Bob' });
+const knows = new Relationship(int(3), int(1), int(2), 'KNOWS', {
+  since: 2020
+});
+
+describe('decoder', () => {
+  describe('decodeNode', () => {
+    it('should decode the properties, labels and identity', () => {
+      // Act
+      const node = decodeNode(alice);
+
+      // Assert
+      expect(node).toEqual({ name: 'Alice', labels: ['User'], _id: 1 });
+    });
+
+    it('should convert the properties', () => {
+      // Arrange
+      const createdAt = new types.DateTime(2024, 1, 2, 3, 4, 5, 0, 0);
+
+      // Act
+      const node = decodeNode(
+        new Node(int(1), ['User'], { createdAt, visits: int(7) })
+      );
+
+      // Assert
+      expect(node.createdAt).toBe('2024-01-02T03:04:05Z');
+      expect(node.visits).toBe(7);
+    });
+
+    it('should use the provided converter', () => {
+      // Arrange
+      const converter = new Neo4jValueConverter({ integers: 'string' });
+
+      // Act
+      const node = decodeNode(alice, converter);
+
+      // Assert
+      expect(node._id).toBe('1');
+    });
+  });
+
+  describe('decodeRelationship', () => {
+    it('should decode the properties, type and endpoints', () => {
+      // Act
+      const relationship = decodeRelationship(knows);
+
+      // Assert
+      expect(relationship).toEqual({
+        since: 2020,
+        type: 'KNOWS',
+        start: 1,
+        end: 2,
+        _id: 3
+      });
+    });
+  });
+
+  describe('decodePath', () => {
+    it('should decode the nodes and relationships in traversal order', () => {
+      // Arrange
+      const carol = new Node(int(4), ['User'], { name: 'Carol' });
+      const follows = new Relationship(int(5), int(4), int(2), 'FOLLOWS', {});
+      const path = new Path(alice, carol, [
+        new PathSegment(alice, knows, bob),
+        new PathSegment(bob, follows, carol)
+      ]);
+
+      // Act
+      const decoded = decodePath(path);
+
+      // Assert
+      expect(decoded.nodes.map((node) => node.name)).toEqual([
+        'Alice',
+        'Bob',
+        'Carol'
+      ]);
+      expect(decoded.relationships.map((rel) => rel.type)).toEqual([
+        'KNOWS',
+        'FOLLOWS'
+      ]);
+    });
+
+    it('should decode a path without any relationships', () => {
+      // Act
+      const decoded = decodePath(new Path(alice, alice, []));
+
+      // Assert
+      expect(decoded).toEqual({
+        nodes: [decodeNode(alice)],
+        relationships: []
+      });
+    });
+  });
+
+  describe('decodeValue', () => {
+    it.each([
+      ['a string', 'Alice', 'Alice'],
+      ['a number', 1.5, 1.5],
+      ['a boolean', true, true],
+      ['null', null, null]
+    ])('should return %s as-is', (_description, value, expected) => {
+      // Act & Assert
+      expect(decodeValue(value)).toEqual(expected);
+    });
+
+    it('should decode lists and maps recursively', () => {
+      // Arrange
+      const value = { friends: [alice, bob], edge: knows };
+
+      // Act
+      const decoded = decodeValue(value);
+
+      // Assert
+      expect(decoded).toEqual({
+        friends: [decodeNode(alice), decodeNode(bob)],
+        edge: decodeRelationship(knows)
+      });
+    });
+
+    it('should convert driver types rather than treating them as maps', () => {
+      // Arrange
+      const date = new types.Date(2024, 1, 2);
+
+      // Act & Assert
+      expect(decodeValue(date)).toBe('2024-01-02');
+      expect(decodeValue(int(5))).toBe(5);
+    });
+  });
+
+  describe('decodeResult', () => {
+    it('should return rows keyed by column name', () => {
+      // Arrange
+      const result = {
+        records: [new Neo4jRecord(['u', 'r', 'total'], [alice, knows, int(2)])]
+      } as unknown as QueryResult;
+
+      // Act
+      const rows = decodeResult(result);
+
+      // Assert
+      expect(rows).toEqual([
+        {
+          u: decodeNode(alice),
+          r: decodeRelationship(knows),
+          total: 2
+        }
+      ]);
+    });
+  });
+});
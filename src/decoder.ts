@@ -0,0 +1,181 @@
+import {
+  Node,
+  Path,
+  QueryResult,
+  Record as Neo4jRecord,
+  Relationship,
+  isNode,
+  isPath,
+  isRelationship
+} from 'neo4j-driver';
+import { ValueConverter, defaultConverter, isPlainObject } from './converter';
+
+/**
+ * A node decoded from a query result
+ * @template T - The type of the node properties
+ */
+export type DecodedNode<T = Record<string, unknown>> = T & {
+  labels: string[];
+  _id: unknown;
+};
+
+/**
+ * A relationship decoded from a query result
+ * @template T - The type of the relationship properties
+ */
+export type DecodedRelationship<T = Record<string, unknown>> = T & {
+  type: string;
+  start: unknown;
+  end: unknown;
+  _id: unknown;
+};
+
+/**
+ * A path decoded from a query result.  The nodes are listed in the order
+ * they are traversed, so relationship `i` connects node `i` and node `i + 1`.
+ */
+export interface DecodedPath {
+  nodes: DecodedNode[];
+  relationships: DecodedRelationship[];
+}
+
+/**
+ * Decode a node into its properties, labels and identity
+ * @param node The node returned by the driver
+ * @param converter The converter applied to the properties
+ * @returns The decoded node
+ */
+export function decodeNode(
+  node: Node,
+  converter: ValueConverter = defaultConverter
+): DecodedNode {
+  return {
+    ...decodeMap(node.properties, converter),
+    labels: node.labels,
+    _id: converter.fromNeo4j(node.identity)
+  };
+}
+
+/**
+ * Decode a relationship into its properties, type, endpoints and identity
+ * @param relationship The relationship returned by the driver
+ * @param converter The converter applied to the properties
+ * @returns The decoded relationship
+ */
+export function decodeRelationship(
+  relationship: Relationship,
+  converter: ValueConverter = defaultConverter
+): DecodedRelationship {
+  return {
+    ...decodeMap(relationship.properties, converter),
+    type: relationship.type,
+    start: converter.fromNeo4j(relationship.start),
+    end: converter.fromNeo4j(relationship.end),
+    _id: converter.fromNeo4j(relationship.identity)
+  };
+}
+
+/**
+ * Decode a path into the nodes and relationships it traverses
+ * @param path The path returned by the driver
+ * @param converter The converter applied to the properties
+ * @returns The decoded path
+ */
+export function decodePath(
+  path: Path,
+  converter: ValueConverter = defaultConverter
+): DecodedPath {
+  return {
+    nodes: [
+      decodeNode(path.start, converter),
+      ...path.segments.map((segment) => decodeNode(segment.end, converter))
+    ],
+    relationships: path.segments.map((segment) =>
+      decodeRelationship(segment.relationship, converter)
+    )
+  };
+}
+
+/**
+ * Decode any value returned by the driver.  Graph types are converted to
+ * plain objects, lists and maps are decoded recursively and every other
+ * value, such as integers, temporals and points, is passed to the converter.
+ * @param value The value returned by the driver
+ * @param converter The converter applied to scalar values
+ * @returns The decoded value
+ */
+export function decodeValue(
+  value: unknown,
+  converter: ValueConverter = defaultConverter
+): unknown {
+  if (isNode(value)) {
+    return decodeNode(value, converter);
+  }
+
+  if (isRelationship(value)) {
+    return decodeRelationship(value, converter);
+  }
+
+  if (isPath(value)) {
+    return decodePath(value, converter);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry) => decodeValue(entry, converter));
+  }
+
+  if (isPlainObject(value)) {
+    return decodeMap(value, converter);
+  }
+
+  return converter.fromNeo4j(value);
+}
+
+/**
+ * Decode a record into an object keyed by column name
+ * @template Row - The type of the decoded row
+ * @param record The record returned by the driver
+ * @param converter The converter applied to scalar values
+ * @returns The decoded row
+ */
+export function decodeRecord<Row = Record<string, unknown>>(
+  record: Neo4jRecord,
+  converter: ValueConverter = defaultConverter
+): Row {
+  const row: Record<string, unknown> = {};
+
+  for (const key of record.keys) {
+    row[key as string] = decodeValue(record.get(key), converter);
+  }
+
+  return row as Row;
+}
+
+/**
+ * Decode every record of a query result
+ * @template Row - The type of the decoded rows
+ * @param result The query result returned by the driver
+ * @param converter The converter applied to scalar values
+ * @returns The decoded rows
+ */
+export function decodeResult<Row = Record<string, unknown>>(
+  result: QueryResult,
+  converter: ValueConverter = defaultConverter
+): Row[] {
+  return result.records.map((record) => decodeRecord<Row>(record, converter));
+}
+
+/**
+ * Decode each of the entries of a map or properties object
+ * @param value The map to decode
+ * @param converter The converter applied to scalar values
+ */
+function decodeMap(value: Record<string, unknown>, converter: ValueConverter) {
+  const decoded: Record<string, unknown> = {};
+
+  for (const [key, entry] of Object.entries(value)) {
+    decoded[key] = decodeValue(entry, converter);
+  }
+
+  return decoded;
+}
@@ -0,0 +1,85 @@
+import {
+  ConnectionError,
+  ConstraintViolationError,
+  DatabaseError,
+  NotFoundError,
+  QuerySyntaxError,
+  TransientError,
+  mapNeo4jError
+} from './errors';
+
+const driverError = (code: string) =>
+  Object.assign(new Error(`Failed with ${code}`), { code });
+
+describe('errors', () => {
+  describe('mapNeo4jError', () => {
+    it.each([
+      ['ServiceUnavailable', ConnectionError],
+      ['SessionExpired', ConnectionError],
+      ['Neo.ClientError.Security.Unauthorized', ConnectionError],
+      ['Neo.ClientError.Statement.SyntaxError', QuerySyntaxError],
+      ['Neo.ClientError.Statement.SemanticError', QuerySyntaxError],
+      [
+        'Neo.ClientError.Schema.ConstraintValidationFailed',
+        ConstraintViolationError
+      ],
+      ['Neo.TransientError.Transaction.DeadlockDetected', TransientError],
+      ['Neo.ClientError.Cluster.NotALeader', TransientError],
+      ['Neo.DatabaseError.General.UnknownError', DatabaseError]
+    ])('should map %s to %p', (code, ErrorClass) => {
+      // Arrange
+      const error = driverError(code);
+
+      // Act
+      const mapped = mapNeo4jError(error) as DatabaseError;
+
+      // Assert
+      expect(mapped).toBeInstanceOf(ErrorClass);
+      expect(mapped).toBeInstanceOf(DatabaseError);
+      expect(mapped.name).toBe(ErrorClass.name);
+      expect(mapped.message).toBe(`Failed with ${code}`);
+      expect(mapped.code).toBe(code);
+      expect(mapped.cause).toBe(error);
+    });
+
+    it('should return errors without a status code as-is', () => {
+      // Arrange
+      const error = new Error('Unexpected');
+
+      // Act & Assert
+      expect(mapNeo4jError(error)).toBe(error);
+    });
+
+    it('should not map errors which have already been mapped', () => {
+      // Arrange
+      const error = new NotFoundError('User', [1]);
+
+      // Act & Assert
+      expect(mapNeo4jError(error)).toBe(error);
+    });
+  });
+
+  describe('NotFoundError', () => {
+    it.each([
+      ['User', [1], 'No "User" node with id 1 was found'],
+      [undefined, [1, 2], 'No node with id 1 or 2 was found']
+    ])('should describe the missing %s node', (label, ids, message) => {
+      // Act
+      const error = new NotFoundError(label, ids);
+
+      // Assert
+      expect(error.message).toBe(message);
+      expect(error.ids).toEqual(ids);
+    });
+
+    it('should describe the missing relationship', () => {
+      // Act
+      const error = new NotFoundError('KNOWS', [1, 2], 'relationship');
+
+      // Assert
+      expect(error.message).toBe(
+        'No "KNOWS" relationship between 1 and 2 was found'
+      );
+    });
+  });
+});
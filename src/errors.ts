@@ -0,0 +1,196 @@
+/**
+ * Thrown when a label, relationship type, property key or variable
+ * cannot be safely used in a Cypher query
+ */
+export class InvalidIdentifierError extends Error {
+  /**
+   * @param identifier - The identifier which failed validation
+   * @param reason - A description of why the identifier is invalid
+   */
+  constructor(
+    readonly identifier: unknown,
+    reason: string
+  ) {
+    super(`Invalid identifier ${JSON.stringify(identifier)}: ${reason}`);
+    this.name = 'InvalidIdentifierError';
+  }
+}
+
+/**
+ * Thrown when the connection configuration is missing required
+ * values or contains invalid values
+ */
+export class ConfigurationError extends Error {
+  /**
+   * @param setting - The name of the invalid setting
+   * @param reason - A description of why the setting is invalid
+   */
+  constructor(
+    readonly setting: string,
+    reason: string
+  ) {
+    super(`Invalid Neo4j configuration "${setting}": ${reason}`);
+    this.name = 'ConfigurationError';
+  }
+}
+
+/**
+ * Base class for the errors thrown by Neo4j when strict mode is enabled
+ */
+export class DatabaseError extends Error {
+  /**
+   * @param message - A description of the error
+   * @param code - The Neo4j status code, if the error was raised by the driver
+   * @param cause - The original error raised by the driver
+   */
+  constructor(
+    message: string,
+    readonly code?: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'DatabaseError';
+  }
+}
+
+/**
+ * Thrown when the node or relationship being changed does not exist
+ */
+export class NotFoundError extends DatabaseError {
+  /**
+   * @param label - The label of the node or the type of the relationship, if known
+   * @param ids - The IDs of the nodes which were looked up, or of the
+   * nodes at either end of the relationship
+   * @param entity - Whether a node or a relationship was looked up
+   */
+  constructor(
+    readonly label: string | undefined,
+    readonly ids: unknown[],
+    readonly entity: 'node' | 'relationship' = 'node'
+  ) {
+    const name = `${label ? `"${label}" ` : ''}${entity}`;
+    const values = ids.map((id) => JSON.stringify(id));
+
+    super(
+      entity === 'node'
+        ? `No ${name} with id ${values.join(' or ')} was found`
+        : `No ${name} between ${values.join(' and ')} was found`
+    );
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Thrown when a write breaks a uniqueness, existence or key constraint
+ */
+export class ConstraintViolationError extends DatabaseError {
+  constructor(message: string, code?: string, cause?: unknown) {
+    super(message, code, cause);
+    this.name = 'ConstraintViolationError';
+  }
+}
+
+/**
+ * Thrown when the database cannot be reached or rejects the credentials
+ */
+export class ConnectionError extends DatabaseError {
+  constructor(message: string, code?: string, cause?: unknown) {
+    super(message, code, cause);
+    this.name = 'ConnectionError';
+  }
+}
+
+/**
+ * Thrown when the query is not valid Cypher
+ */
+export class QuerySyntaxError extends DatabaseError {
+  constructor(message: string, code?: string, cause?: unknown) {
+    super(message, code, cause);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+/**
+ * Thrown when the query failed for a temporary reason, such as a deadlock
+ * or a leader switch, and may succeed if it is run again
+ */
+export class TransientError extends DatabaseError {
+  constructor(message: string, code?: string, cause?: unknown) {
+    super(message, code, cause);
+    this.name = 'TransientError';
+  }
+}
+
+const connectionCodes = [
+  'ServiceUnavailable',
+  'SessionExpired',
+  'Neo.ClientError.Security.Unauthorized',
+  'Neo.ClientError.Security.AuthenticationRateLimit'
+];
+
+const syntaxCodes = [
+  'Neo.ClientError.Statement.SyntaxError',
+  'Neo.ClientError.Statement.SemanticError'
+];
+
+/**
+ * Map an error raised by the driver to the matching `DatabaseError` using
+ * its Neo4j status code.  Errors without a status code are returned as-is.
+ * @param error The error raised by the driver
+ * @returns The mapped error
+ */
+export function mapNeo4jError(error: unknown) {
+  if (error instanceof DatabaseError) {
+    return error;
+  }
+
+  const { code, message } = (error ?? {}) as {
+    code?: unknown;
+    message?: string;
+  };
+
+  if (typeof code !== 'string') {
+    return error;
+  }
+
+  const description = message ?? code;
+
+  if (connectionCodes.includes(code)) {
+    return new ConnectionError(description, code, error);
+  }
+
+  if (syntaxCodes.includes(code)) {
+    return new QuerySyntaxError(description, code, error);
+  }
+
+  if (code === 'Neo.ClientError.Schema.ConstraintValidationFailed') {
+    return new ConstraintViolationError(description, code, error);
+  }
+
+  if (
+    code.startsWith('Neo.TransientError.') ||
+    code === 'Neo.ClientError.Cluster.NotALeader'
+  ) {
+    return new TransientError(description, code, error);
+  }
+
+  return new DatabaseError(description, code, error);
+}
+
+/**
+ * Thrown when a value cannot be converted between its Neo4j and
+ * JavaScript representations without losing information
+ */
+export class ConversionError extends Error {
+  /**
+   * @param value - A description of the value which could not be converted
+   * @param reason - A description of why the value cannot be converted
+   */
+  constructor(
+    readonly value: string,
+    reason: string
+  ) {
+    super(`Unable to convert ${value}: ${reason}`);
+    this.name = 'ConversionError';
+  }
+}
@@ -0,0 +1,39 @@
+import { DateTime } from 'neo4j-driver';
+import { omit, parseDateProperties } from './helpers';
+
+describe('helpers', () => {
+  describe('parseDateProperties', () => {
+    it('should convert the DateTime properties into ISO strings', () => {
+      // Arrange
+      const createdAt = DateTime.fromStandardDate(
+        new Date('2024-01-02T03:04:05Z')
+      );
+      const data = { name: 'Test', createdAt, updatedAt: 'unchanged' };
+
+      // Act
+      const result = parseDateProperties(data, ['createdAt', 'updatedAt']);
+
+      // Assert
+      expect(result).toBe(data);
+      expect(result).toEqual({
+        name: 'Test',
+        createdAt: createdAt.toString(),
+        updatedAt: 'unchanged'
+      });
+    });
+  });
+
+  describe('omit', () => {
+    it('should copy the object without the keys', () => {
+      // Arrange
+      const value = { _id: 1, name: 'Test', labels: ['User'] };
+
+      // Act
+      const result = omit(value, '_id');
+
+      // Assert
+      expect(result).toEqual({ name: 'Test', labels: ['User'] });
+      expect(value).toEqual({ _id: 1, name: 'Test', labels: ['User'] });
+    });
+  });
+});
@@ -1,11 +1,189 @@
 import * as Neo4j from 'neo4j-driver';
+import { defaultConverter } from './converter';
 
+/**
+ * Convert the DateTime properties of a node into ISO strings
+ * @param data The properties of the node, which are updated in place
+ * @param dateKeys The names of the DateTime properties
+ * @returns The updated properties
+ * @deprecated The values returned by `Neo4j` are already converted, use a `Neo4jValueConverter` for other values
+ */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function parseDateProperties(data: any, dateKeys: string[]) {
   for (const key of dateKeys) {
-    if (data[key] instanceof Neo4j.types.DateTime) {
-      data[key] = data[key].toString();
+    if (Neo4j.isDateTime(data[key])) {
+      data[key] = defaultConverter.fromNeo4j(data[key]);
     }
   }
   return data;
 }
+
+/**
+ * The temporal types which can be stored in a cursor, with the fields
+ * passed to their constructor to create them again
+ */
+const cursorTemporals: Array<
+  [keyof typeof Neo4j.types, (value: unknown) => boolean, string[]]
+> = [
+  [
+    'DateTime',
+    Neo4j.isDateTime,
+    [
+      'year',
+      'month',
+      'day',
+      'hour',
+      'minute',
+      'second',
+      'nanosecond',
+      'timeZoneOffsetSeconds',
+      'timeZoneId'
+    ]
+  ],
+  [
+    'LocalDateTime',
+    Neo4j.isLocalDateTime,
+    ['year', 'month', 'day', 'hour', 'minute', 'second', 'nanosecond']
+  ],
+  ['Date', Neo4j.isDate, ['year', 'month', 'day']],
+  [
+    'Time',
+    Neo4j.isTime,
+    ['hour', 'minute', 'second', 'nanosecond', 'timeZoneOffsetSeconds']
+  ],
+  ['LocalTime', Neo4j.isLocalTime, ['hour', 'minute', 'second', 'nanosecond']],
+  ['Duration', Neo4j.isDuration, ['months', 'days', 'seconds', 'nanoseconds']]
+];
+
+/**
+ * Encode a list of values into an opaque cursor string.  Integers and
+ * temporals keep their Neo4j type, so that the decoded values compare
+ * with the database values in the same way.
+ * @param values The values identifying the position of the cursor
+ * @returns A URL safe cursor string
+ */
+export function encodeCursor(values: unknown[]) {
+  return Buffer.from(JSON.stringify(values.map(toCursorValue))).toString(
+    'base64url'
+  );
+}
+
+/**
+ * Convert a value into a JSON value which records its Neo4j type
+ * @private
+ */
+function toCursorValue(value: unknown): unknown {
+  if (Neo4j.isInt(value) || typeof value === 'bigint') {
+    return { $int: value.toString() };
+  }
+
+  for (const [type, isType, fields] of cursorTemporals) {
+    if (isType(value)) {
+      const temporal = value as unknown as Record<string, unknown>;
+
+      return {
+        $temporal: type,
+        args: fields.map((field) => toCursorValue(temporal[field] ?? null))
+      };
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Create the value recorded by `toCursorValue` again
+ * @private
+ */
+function fromCursorValue(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const { $int, $temporal, args } = value as Record<string, unknown>;
+
+  if (typeof $int === 'string') {
+    return Neo4j.int($int);
+  }
+
+  const temporal = cursorTemporals.find(([type]) => type === $temporal);
+
+  if (temporal && Array.isArray(args)) {
+    const Temporal = Neo4j.types[temporal[0]] as unknown as new (
+      ...args: unknown[]
+    ) => unknown;
+
+    return new Temporal(
+      ...args.map((arg) => fromCursorValue(arg) ?? undefined)
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Decode a cursor created by `encodeCursor`
+ * @param cursor The cursor string
+ * @param length The expected number of values in the cursor
+ * @returns The values identifying the position of the cursor
+ * @throws Error if the cursor is malformed
+ */
+export function decodeCursor(cursor: string, length: number): unknown[] {
+  let values: unknown;
+
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (!Array.isArray(values) || values.length !== length) {
+    throw new Error('Invalid cursor');
+  }
+
+  try {
+    return values.map(fromCursorValue);
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+}
+
+/**
+ * Split a list into chunks
+ * @param values The values to split
+ * @param size The maximum number of values in each chunk
+ * @returns The chunks, in the order of the values
+ * @throws Error if the size is not a positive integer
+ */
+export function chunk<T>(values: T[], size: number): T[][] {
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new Error('Chunk size must be a positive integer');
+  }
+
+  const chunks: T[][] = [];
+
+  for (let index = 0; index < values.length; index += size) {
+    chunks.push(values.slice(index, index + size));
+  }
+
+  return chunks;
+}
+
+/**
+ * Copy an object without some of its keys
+ * @param value The object to copy
+ * @param keys The keys to leave out of the copy
+ * @returns The copy of the object
+ */
+export function omit<T extends object, K extends keyof T>(
+  value: T,
+  ...keys: K[]
+): Omit<T, K> {
+  const copy = { ...value };
+
+  for (const key of keys) {
+    delete copy[key];
+  }
+
+  return copy;
+}
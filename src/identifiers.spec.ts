@@ -0,0 +1,108 @@
+import { InvalidIdentifierError } from './errors';
+import {
+  assertVariable,
+  escapeIdentifier,
+  escapeLabel,
+  escapeRelationshipType
+} from './identifiers';
+
+describe('identifiers', () => {
+  describe('escapeIdentifier', () => {
+    const cases: Array<[string, string, string]> = [
+      ['should not escape simple identifiers', 'User', 'User'],
+      ['should not escape underscores', '_created_at', '_created_at'],
+      ['should escape hyphens', 'first-name', '`first-name`'],
+      ['should escape spaces', 'Line Item', '`Line Item`'],
+      ['should escape leading numbers', '1st', '`1st`'],
+      ['should escape unicode', 'Benutzer_ä', '`Benutzer_ä`'],
+      [
+        'should escape a closing pattern',
+        'User) DETACH DELETE n //',
+        '`User) DETACH DELETE n //`'
+      ],
+      [
+        'should double backticks so the identifier cannot be closed',
+        'User`) DETACH DELETE n //',
+        '`User``) DETACH DELETE n //`'
+      ],
+      ['should double consecutive backticks', '``', '``````'],
+      [
+        'should escape property map injection',
+        'id: 1}) SET n.admin = true //',
+        '`id: 1}) SET n.admin = true //`'
+      ]
+    ];
+
+    it.each(cases)('%s', (_description, identifier, expected) => {
+      // Act
+      const result = escapeIdentifier(identifier);
+
+      // Assert
+      expect(result).toBe(expected);
+    });
+
+    it.each([
+      ['an empty string', ''],
+      ['whitespace', '   '],
+      ['a null character', 'User\u0000'],
+      ['a non-string value', 42 as unknown as string]
+    ])('should reject %s', (_description, identifier) => {
+      // Act & Assert
+      expect(() => escapeIdentifier(identifier)).toThrow(
+        InvalidIdentifierError
+      );
+    });
+
+    it('should include the identifier and reason in the error', () => {
+      // Act & Assert
+      expect(() => escapeIdentifier('')).toThrow(
+        'Invalid identifier "": cannot be empty'
+      );
+    });
+  });
+
+  describe('escapeLabel', () => {
+    it('should escape each label separately', () => {
+      // Act
+      const result = escapeLabel('User:Line Item');
+
+      // Assert
+      expect(result).toBe('User:`Line Item`');
+    });
+
+    it('should reject empty labels between separators', () => {
+      // Act & Assert
+      expect(() => escapeLabel('User::Admin')).toThrow(InvalidIdentifierError);
+    });
+  });
+
+  describe('escapeRelationshipType', () => {
+    it('should escape each relationship type separately', () => {
+      // Act
+      const result = escapeRelationshipType('KNOWS|WORKS-WITH');
+
+      // Assert
+      expect(result).toBe('KNOWS|`WORKS-WITH`');
+    });
+  });
+
+  describe('assertVariable', () => {
+    it('should return valid variables', () => {
+      // Act
+      const result = assertVariable('user_1');
+
+      // Assert
+      expect(result).toBe('user_1');
+    });
+
+    it.each([
+      ['a pattern', 'n) DETACH DELETE (n'],
+      ['a backtick', '`n`'],
+      ['a leading number', '1n'],
+      ['an empty string', '']
+    ])('should reject %s', (_description, variable) => {
+      // Act & Assert
+      expect(() => assertVariable(variable)).toThrow(InvalidIdentifierError);
+    });
+  });
+});
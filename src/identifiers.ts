@@ -0,0 +1,90 @@
+import { InvalidIdentifierError } from './errors';
+
+/**
+ * Identifiers which can be used in Cypher without escaping
+ */
+const simpleIdentifier = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Validate and escape a label, relationship type or property key so that it
+ * can be interpolated into a Cypher query.  Identifiers which contain anything
+ * other than letters, numbers and underscores are wrapped in backticks, and
+ * any backticks they contain are doubled.
+ *
+ * @param identifier The identifier to escape
+ * @returns The identifier, safe to use in a Cypher query
+ * @throws InvalidIdentifierError if the identifier is empty or not a string
+ * @example
+ * escapeIdentifier('User') // User
+ * escapeIdentifier('first-name') // `first-name`
+ * escapeIdentifier('User`) DETACH DELETE n //') // `User``) DETACH DELETE n //`
+ */
+export function escapeIdentifier(identifier: string) {
+  if (typeof identifier !== 'string') {
+    throw new InvalidIdentifierError(identifier, 'must be a string');
+  }
+
+  if (identifier.trim().length === 0) {
+    throw new InvalidIdentifierError(identifier, 'cannot be empty');
+  }
+
+  if (identifier.includes('\u0000')) {
+    throw new InvalidIdentifierError(
+      identifier,
+      'cannot contain null characters'
+    );
+  }
+
+  if (simpleIdentifier.test(identifier)) {
+    return identifier;
+  }
+
+  return `\`${identifier.replace(/`/g, '``')}\``;
+}
+
+/**
+ * Validate and escape one or more labels separated by colons
+ * @param label The label(s) to escape (e.g. `User` or `User:Admin`)
+ * @returns The escaped labels joined by colons
+ * @throws InvalidIdentifierError if any of the labels are invalid
+ */
+export function escapeLabel(label: string) {
+  if (typeof label !== 'string') {
+    throw new InvalidIdentifierError(label, 'must be a string');
+  }
+
+  return label.split(':').map(escapeIdentifier).join(':');
+}
+
+/**
+ * Validate and escape one or more relationship types separated by pipes
+ * @param type The relationship type(s) to escape (e.g. `KNOWS` or `KNOWS|FOLLOWS`)
+ * @returns The escaped relationship types joined by pipes
+ * @throws InvalidIdentifierError if any of the types are invalid
+ */
+export function escapeRelationshipType(type: string) {
+  if (typeof type !== 'string') {
+    throw new InvalidIdentifierError(type, 'must be a string');
+  }
+
+  return type.split('|').map(escapeIdentifier).join('|');
+}
+
+/**
+ * Validate a variable name.  Variables are generated by the query builder or
+ * provided by the developer, so they must be simple identifiers rather than
+ * being escaped.
+ * @param variable The variable name to validate
+ * @returns The variable name
+ * @throws InvalidIdentifierError if the variable is not a simple identifier
+ */
+export function assertVariable(variable: string) {
+  if (typeof variable !== 'string' || !simpleIdentifier.test(variable)) {
+    throw new InvalidIdentifierError(
+      variable,
+      'variables may only contain letters, numbers and underscores and cannot start with a number'
+    );
+  }
+
+  return variable;
+}
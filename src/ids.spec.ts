@@ -0,0 +1,53 @@
+import { generateId, generateUlid } from './ids';
+
+describe('ids', () => {
+  describe('generateUlid', () => {
+    it('should encode the timestamp in the first 10 characters', () => {
+      // Act
+      const ulid = generateUlid(1469918176385, new Uint8Array(10));
+
+      // Assert
+      expect(ulid).toBe('01ARYZ6S410000000000000000');
+    });
+
+    it('should encode the random bytes in the last 16 characters', () => {
+      // Act
+      const ulid = generateUlid(0, new Uint8Array(10).fill(255));
+
+      // Assert
+      expect(ulid).toBe('0000000000ZZZZZZZZZZZZZZZZ');
+    });
+
+    it('should sort in the order the IDs were generated', () => {
+      // Act
+      const first = generateUlid(1000);
+      const second = generateUlid(2000);
+
+      // Assert
+      expect(first < second).toBe(true);
+      expect(first).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+    });
+  });
+
+  describe('generateId', () => {
+    it('should generate a UUID', () => {
+      // Act & Assert
+      expect(generateId('uuid')).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+    });
+
+    it('should generate a ULID', () => {
+      // Act & Assert
+      expect(generateId('ulid')).toHaveLength(26);
+    });
+
+    it.each(['property', 'elementId'] as const)(
+      'should not generate an ID for the %s strategy',
+      (strategy) => {
+        // Act & Assert
+        expect(generateId(strategy)).toBeUndefined();
+      }
+    );
+  });
+});
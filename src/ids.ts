@@ -0,0 +1,67 @@
+import { randomBytes, randomUUID } from 'crypto';
+
+/**
+ * Defines how nodes are identified by the CRUD methods of `Neo4j`
+ * - 'property': The application supplies the ID in a node property
+ * - 'uuid': A UUID v4 is generated into the ID property on insert
+ * - 'ulid': A ULID is generated into the ID property on insert
+ * - 'elementId': The ID assigned by the database, read with `elementId()`
+ */
+export type IdStrategy = 'property' | 'uuid' | 'ulid' | 'elementId';
+
+/**
+ * Crockford's base32 alphabet used to encode ULIDs
+ */
+const ulidAlphabet = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Generate a ULID: a 48-bit timestamp followed by 80 random bits, encoded
+ * as 26 base32 characters so that IDs sort in the order they were created
+ * @param time The timestamp in milliseconds (defaults to now)
+ * @param random 10 random bytes
+ * @returns The ULID
+ */
+export function generateUlid(
+  time = Date.now(),
+  random: Uint8Array = randomBytes(10)
+) {
+  let timestamp = '';
+
+  for (let remaining = time, i = 0; i < 10; i++) {
+    timestamp = ulidAlphabet[remaining % 32] + timestamp;
+    remaining = Math.floor(remaining / 32);
+  }
+
+  // Encode the random bytes 5 bits at a time
+  let randomness = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of random) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      bits -= 5;
+      randomness += ulidAlphabet[(buffer >> bits) & 31];
+    }
+  }
+
+  return timestamp + randomness;
+}
+
+/**
+ * Generate a new ID for a node, if the strategy generates IDs
+ * @param strategy The ID strategy
+ * @returns The generated ID, or undefined if the ID is supplied elsewhere
+ */
+export function generateId(strategy: IdStrategy) {
+  switch (strategy) {
+    case 'uuid':
+      return randomUUID();
+    case 'ulid':
+      return generateUlid();
+    default:
+      return undefined;
+  }
+}
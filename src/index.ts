@@ -1,3 +1,14 @@
 export * from './query-builder';
+export * from './where-builder';
+export * from './config';
+export * from './errors';
+export * from './identifiers';
+export * from './aggregate-builder';
+export * from './retry';
+export * from './decoder';
+export * from './converter';
+export * from './ids';
+export * from './audit';
+export * from './soft-delete';
 export * from './neo4j';
 export * from './utils';
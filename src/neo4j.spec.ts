@@ -1,10 +1,33 @@
 import { Neo4j } from './neo4j';
 import { Logger } from './logging';
-import { QueryResult, Transaction } from 'neo4j-driver';
+import {
+  DateTime,
+  Node,
+  Path,
+  PathSegment,
+  QueryResult,
+  Record as Neo4jRecord,
+  Relationship,
+  Transaction,
+  bookmarkManager,
+  driver,
+  int,
+  isDateTime
+} from 'neo4j-driver';
 import { RelationshipDirections } from './database';
+import {
+  ConfigurationError,
+  ConstraintViolationError,
+  InvalidIdentifierError,
+  NotFoundError
+} from './errors';
+import { Neo4jValueConverter } from './converter';
+import { encodeCursor } from './helpers';
 
 // Mock the neo4j-driver
 jest.mock('neo4j-driver', () => {
+  const actual = jest.requireActual('neo4j-driver');
+
   // Define the mock transaction
   const mockTransaction = {
     run: jest.fn().mockResolvedValue({
@@ -13,6 +36,12 @@ jest.mock('neo4j-driver', () => {
           get: jest.fn().mockReturnValue({
             properties: { id: 1, name: 'Test Transaction' },
             labels: ['TestLabel']
+          }),
+          toObject: jest.fn().mockReturnValue({
+            n: new actual.Node(1, ['TestLabel'], {
+              id: 1,
+              name: 'Test Transaction'
+            })
           })
         }
       ]
@@ -31,16 +60,25 @@ jest.mock('neo4j-driver', () => {
             labels: ['TestLabel']
           }),
           toObject: jest.fn().mockReturnValue({
-            n: {
-              properties: { id: 1, name: 'Test' },
-              labels: ['TestLabel']
-            }
+            n: new actual.Node(1, ['TestLabel'], { id: 1, name: 'Test' })
           })
         }
-      ]
+      ],
+      summary: {
+        counters: {
+          updates: () => ({ nodesDeleted: 1 }),
+          containsUpdates: () => true
+        },
+        resultAvailableAfter: { toNumber: () => 1 },
+        resultConsumedAfter: { toNumber: () => 2 },
+        notifications: []
+      }
     }),
     close: jest.fn().mockResolvedValue(undefined),
-    beginTransaction: jest.fn().mockReturnValue(mockTransaction)
+    beginTransaction: jest.fn().mockReturnValue(mockTransaction),
+    executeRead: jest.fn((callback) => callback(mockTransaction)),
+    executeWrite: jest.fn((callback) => callback(mockTransaction)),
+    lastBookmarks: jest.fn().mockReturnValue(['bookmark:1'])
   };
 
   const mockDriver = {
@@ -49,12 +87,13 @@ jest.mock('neo4j-driver', () => {
   };
 
   return {
-    ...jest.requireActual('neo4j-driver'),
+    ...actual,
     driver: jest.fn().mockReturnValue(mockDriver),
     auth: {
       basic: jest
         .fn()
-        .mockReturnValue({ username: 'neo4j', password: 'password' })
+        .mockReturnValue({ username: 'neo4j', password: 'password' }),
+      bearer: jest.fn().mockReturnValue({ scheme: 'bearer', credentials: '' })
     }
   };
 });
@@ -67,13 +106,38 @@ const mockLogger: Logger = {
   debug: jest.fn()
 } as unknown as Logger;
 
+// Create a query result with the summary counters
+const mockResult = (updates: Record<string, number> = {}, records = []) => ({
+  records,
+  summary: {
+    counters: {
+      updates: () => ({
+        nodesCreated: 0,
+        nodesDeleted: 0,
+        relationshipsCreated: 0,
+        relationshipsDeleted: 0,
+        propertiesSet: 0,
+        labelsAdded: 0,
+        labelsRemoved: 0,
+        ...updates
+      }),
+      containsUpdates: () => Object.values(updates).some((count) => count > 0)
+    },
+    resultAvailableAfter: int(3),
+    resultConsumedAfter: int(5),
+    notifications: [
+      { code: 'Neo.ClientNotification.Statement.CartesianProduct' }
+    ]
+  }
+});
+
 describe('Neo4j', () => {
   let neo4j: Neo4j;
 
   beforeEach(() => {
-    // Reset the singleton instance before each test
+    // Reset the connection registry before each test
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (Neo4j as any).instance = null;
+    (Neo4j as any).connections.clear();
 
     // Create a new instance with the mock logger
     neo4j = new Neo4j(mockLogger);
@@ -86,7 +150,7 @@ describe('Neo4j', () => {
     describe('connect', () => {
       it('should create a new driver instance if none exists', async () => {
         // == Arrange ==
-        // No arrangement needed, instance is null from beforeEach
+        // No arrangement needed, the registry is empty from beforeEach
 
         // == Act ==
         const instance = await Neo4j.connect();
@@ -105,6 +169,45 @@ describe('Neo4j', () => {
         // == Assert ==
         expect(instance1).toBe(instance2);
       });
+
+      it('should create the driver using the connection config', async () => {
+        // == Arrange ==
+        const config = {
+          uri: 'neo4j+s://db.example.com:7687',
+          auth: { type: 'bearer' as const, token: 'token' },
+          maxConnectionPoolSize: 20
+        };
+
+        // == Act ==
+        await Neo4j.connect(config);
+
+        // == Assert ==
+        expect(driver).toHaveBeenCalledWith(
+          'neo4j+s://db.example.com:7687',
+          { scheme: 'bearer', credentials: '' },
+          { maxConnectionPoolSize: 20 }
+        );
+      });
+
+      it('should still accept a logger as the only argument', async () => {
+        // == Act ==
+        const instance = await Neo4j.connect(mockLogger);
+
+        // == Assert ==
+        expect(instance).toBe(await Neo4j.getInstance());
+        expect(mockLogger.log).toHaveBeenCalledWith(
+          'debug',
+          'Connected to Neo4j',
+          expect.objectContaining({ connection: 'default' })
+        );
+      });
+
+      it('should reject an invalid connection config', async () => {
+        // == Act & Assert ==
+        await expect(
+          Neo4j.connect({ uri: 'http://localhost:7474' })
+        ).rejects.toThrow(ConfigurationError);
+      });
     });
 
     describe('getInstance', () => {
@@ -129,6 +232,56 @@ describe('Neo4j', () => {
         // == Assert ==
         expect(instance1).toBe(instance2);
       });
+
+      it('should return the driver for a named connection', async () => {
+        // == Arrange ==
+        const sourceDriver = { close: jest.fn() };
+        const targetDriver = { close: jest.fn() };
+        jest
+          .mocked(driver)
+          .mockReturnValueOnce(sourceDriver as never)
+          .mockReturnValueOnce(targetDriver as never);
+
+        await Neo4j.connect({ name: 'source' });
+        await Neo4j.connect({ name: 'target' });
+
+        // == Act ==
+        const instance = await Neo4j.getInstance(undefined, 'target');
+
+        // == Assert ==
+        expect(instance).toBe(targetDriver);
+      });
+
+      it('should throw if a named connection has not been registered', async () => {
+        // == Act & Assert ==
+        await expect(Neo4j.getInstance(undefined, 'missing')).rejects.toThrow(
+          ConfigurationError
+        );
+      });
+    });
+
+    describe('closeAll', () => {
+      it('should close every registered connection', async () => {
+        // == Arrange ==
+        const sourceDriver = { close: jest.fn() };
+        const targetDriver = { close: jest.fn() };
+        jest
+          .mocked(driver)
+          .mockReturnValueOnce(sourceDriver as never)
+          .mockReturnValueOnce(targetDriver as never);
+
+        await Neo4j.connect({ name: 'source' });
+        await Neo4j.connect({ name: 'target' });
+
+        // == Act ==
+        await Neo4j.closeAll();
+
+        // == Assert ==
+        expect(sourceDriver.close).toHaveBeenCalled();
+        expect(targetDriver.close).toHaveBeenCalled();
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        expect((Neo4j as any).connections.size).toBe(0);
+      });
     });
   });
 
@@ -145,6 +298,32 @@ describe('Neo4j', () => {
         expect(result).toBe(true);
       });
 
+      it('should return false if no node was deleted', async () => {
+        // == Arrange ==
+        jest.spyOn(neo4j, 'execute').mockResolvedValueOnce(mockResult());
+
+        // == Act ==
+        const result = await neo4j.delete('TestLabel', 1);
+
+        // == Assert ==
+        expect(result).toBe(false);
+      });
+
+      it('should execute a detach delete query', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(neo4j, 'execute');
+
+        // == Act ==
+        await neo4j.delete('TestLabel', 1);
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel) WHERE n.id = $n_id DETACH DELETE n',
+          { n_id: 1 },
+          {}
+        );
+      });
+
       it('should return false and log error if deletion fails', async () => {
         // == Arrange ==
         // Mock the execute method to throw an error
@@ -162,7 +341,7 @@ describe('Neo4j', () => {
     });
 
     describe('disconnect', () => {
-      it('should close the connection and clear the instance', async () => {
+      it('should close the connection and remove it from the registry', async () => {
         // == Arrange ==
         await Neo4j.connect();
 
@@ -171,163 +350,2082 @@ describe('Neo4j', () => {
 
         // == Assert ==
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        expect((Neo4j as any).instance).toBeNull();
+        expect((Neo4j as any).connections.has('default')).toBe(false);
       });
-    });
 
-    describe('insert', () => {
-      it('should insert a node and return the properties', async () => {
+      it('should not close the other connections', async () => {
         // == Arrange ==
-        const data = { name: 'Test Node' };
+        const sourceDriver = { close: jest.fn() };
+        const targetDriver = { close: jest.fn() };
+        jest
+          .mocked(driver)
+          .mockReturnValueOnce(sourceDriver as never)
+          .mockReturnValueOnce(targetDriver as never);
+
+        await Neo4j.connect({ name: 'source' });
+        await Neo4j.connect({ name: 'target' });
+
+        const source = new Neo4j(mockLogger, { connection: 'source' });
 
         // == Act ==
-        const result = await neo4j.insert('TestLabel', data);
+        await source.disconnect();
 
         // == Assert ==
-        expect(result).toEqual({ id: 1, name: 'Test' });
+        expect(sourceDriver.close).toHaveBeenCalled();
+        expect(targetDriver.close).not.toHaveBeenCalled();
+        expect(await Neo4j.getInstance(undefined, 'target')).toBe(targetDriver);
       });
     });
 
-    describe('join', () => {
-      it('should create a relationship between nodes with the specified direction', async () => {
+    describe('getSession', () => {
+      it('should open a session against the configured database', async () => {
         // == Arrange ==
-        const directions: RelationshipDirections[] = [
-          'from',
-          'to',
-          'both',
-          'none'
-        ];
+        const mockDriver = { session: jest.fn(), close: jest.fn() };
+        jest.mocked(driver).mockReturnValueOnce(mockDriver as never);
 
-        // == Act & Assert ==
-        for (const direction of directions) {
-          const result = await neo4j.join('RELATED_TO', 1, 2, direction);
-          expect(result).toBe(true);
-        }
+        await Neo4j.connect({ name: 'etl', database: 'staging' });
+
+        const etl = new Neo4j(mockLogger, { connection: 'etl' });
+
+        // == Act ==
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await (etl as any).getSession();
+
+        // == Assert ==
+        expect(mockDriver.session).toHaveBeenCalledWith({
+          database: 'staging'
+        });
       });
 
-      it('should return false and log error if join fails', async () => {
+      it('should prefer the database of the instance', async () => {
         // == Arrange ==
-        // Mock the execute method to throw an error
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        jest
-          .spyOn(neo4j as any, 'execute')
-          .mockRejectedValueOnce(new Error('Join failed'));
+        const mockDriver = { session: jest.fn(), close: jest.fn() };
+        jest.mocked(driver).mockReturnValueOnce(mockDriver as never);
+
+        await Neo4j.connect({ name: 'etl', database: 'staging' });
+
+        const etl = new Neo4j(mockLogger, {
+          connection: 'etl',
+          database: 'production'
+        });
 
         // == Act ==
-        const result = await neo4j.join('RELATED_TO', 1, 2, 'from');
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await (etl as any).getSession();
 
         // == Assert ==
-        expect(result).toBe(false);
+        expect(mockDriver.session).toHaveBeenCalledWith({
+          database: 'production'
+        });
       });
     });
 
-    describe('select', () => {
-      it('should select a node based on query parameters', async () => {
-        // == Arrange ==
-        const query = { where: { id: 1 } };
+    describe('execute', () => {
+      const mockSession = () => ({
+        run: jest.fn().mockResolvedValue({ records: [] }),
+        executeRead: jest.fn((callback) => callback({ run: jest.fn() })),
+        lastBookmarks: jest.fn().mockReturnValue(['bookmark:2']),
+        close: jest.fn()
+      });
 
-        const expectSpy = jest.spyOn(neo4j, 'execute');
+      it('should run reads in a read session', async () => {
+        // == Arrange ==
+        const session = mockSession();
+        const mockDriver = { session: jest.fn().mockReturnValue(session) };
+        jest.mocked(driver).mockReturnValueOnce(mockDriver as never);
 
         // == Act ==
-        await neo4j.select('TestLabel', query);
+        await neo4j.execute('MATCH (n) RETURN n', {}, { accessMode: 'READ' });
 
         // == Assert ==
-        expect(expectSpy).toHaveBeenCalledWith(
-          'MATCH (n:TestLabel {id: $n_id}) RETURN n',
-          { n_id: 1 },
-          {}
-        );
+        expect(mockDriver.session).toHaveBeenCalledWith({
+          defaultAccessMode: 'READ'
+        });
+        expect(session.run).toHaveBeenCalledWith('MATCH (n) RETURN n', {});
+        expect(session.executeRead).not.toHaveBeenCalled();
       });
-    });
 
-    describe('transaction', () => {
-      it('should execute the callback passing the transaction', async () => {
+      it('should open the session with the bookmarks and keep the last bookmarks', async () => {
         // == Arrange ==
-        const callback = jest.fn().mockResolvedValue({ success: true });
+        const session = mockSession();
+        const mockDriver = { session: jest.fn().mockReturnValue(session) };
+        jest.mocked(driver).mockReturnValueOnce(mockDriver as never);
 
-        const mockTransaction = jest.mocked(Transaction);
-        const executeWriteSpy = jest.fn().mockImplementation((callback) => {
-          callback(mockTransaction);
-          return Promise.resolve({ success: true });
+        // == Act ==
+        await neo4j.execute(
+          'CREATE (n) RETURN n',
+          {},
+          { bookmarks: ['bookmark:1'] }
+        );
+
+        // == Assert ==
+        expect(mockDriver.session).toHaveBeenCalledWith({
+          bookmarks: ['bookmark:1']
         });
+        expect(session.run).toHaveBeenCalled();
+        expect(neo4j.getLastBookmarks()).toEqual(['bookmark:2']);
+      });
 
-        jest.spyOn(neo4j as any, 'getSession').mockResolvedValue({
-          executeWrite: executeWriteSpy
+      it('should convert the parameters before running the query', async () => {
+        // == Arrange ==
+        const session = mockSession();
+        const mockDriver = { session: jest.fn().mockReturnValue(session) };
+        jest.mocked(driver).mockReturnValueOnce(mockDriver as never);
+
+        const createdAt = new Date('2024-01-02T03:04:05Z');
+
+        // == Act ==
+        await neo4j.execute('CREATE (n $data)', {
+          data: { createdAt, visits: BigInt(3) }
         });
 
+        // == Assert ==
+        const [, params] = session.run.mock.calls[0];
+        expect(isDateTime(params.data.createdAt)).toBe(true);
+        expect(params.data.visits).toEqual(int(3));
+      });
+
+      it('should open the session with the bookmark manager', async () => {
+        // == Arrange ==
+        const session = mockSession();
+        const mockDriver = { session: jest.fn().mockReturnValue(session) };
+        jest.mocked(driver).mockReturnValueOnce(mockDriver as never);
+
+        const manager = bookmarkManager();
+        const managed = new Neo4j(mockLogger, { bookmarkManager: manager });
+
         // == Act ==
-        await neo4j.transaction(callback);
+        await managed.execute('MATCH (n) RETURN n');
 
         // == Assert ==
-        expect(callback).toHaveBeenCalled();
+        expect(mockDriver.session).toHaveBeenCalledWith({
+          bookmarkManager: manager
+        });
       });
     });
 
-    describe('update', () => {
-      it('should execute a update query', async () => {
+    describe('executeWithSummary', () => {
+      it('should return the records with the counters, timings and notifications', async () => {
         // == Arrange ==
-        const data = { name: 'Updated Node' };
+        jest
+          .spyOn(neo4j, 'execute')
+          .mockResolvedValueOnce(
+            mockResult({ nodesCreated: 1, propertiesSet: 2 })
+          );
 
-        const expectSpy = jest.spyOn(neo4j, 'execute');
+        // == Act ==
+        const result = await neo4j.executeWithSummary(
+          'CREATE (n:TestLabel $data)',
+          { data: { name: 'Test' } }
+        );
+
+        // == Assert ==
+        expect(result).toEqual({
+          records: [],
+          counters: {
+            nodesCreated: 1,
+            nodesDeleted: 0,
+            relationshipsCreated: 0,
+            relationshipsDeleted: 0,
+            propertiesSet: 2,
+            labelsAdded: 0,
+            labelsRemoved: 0,
+            containsUpdates: true
+          },
+          resultAvailableAfter: 3,
+          resultConsumedAfter: 5,
+          notifications: [
+            { code: 'Neo.ClientNotification.Statement.CartesianProduct' }
+          ]
+        });
+      });
+
+      it('should report the counters of the write methods', async () => {
+        // == Arrange ==
+        const onCounters = jest.fn();
+        jest
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .spyOn(neo4j as any, 'executeQuery')
+          .mockResolvedValueOnce(
+            mockResult({ nodesCreated: 1, propertiesSet: 4, labelsAdded: 1 })
+          );
 
         // == Act ==
-        await neo4j.update('TestLabel', 1, data);
+        await neo4j.insert('TestLabel', { name: 'Test' }, { onCounters });
 
         // == Assert ==
-        expect(expectSpy).toHaveBeenCalledWith(
-          'MATCH (n:TestLabel) WHERE id(n) = $id SET n += $data, n.updatedAt = datetime() RETURN n',
-          { id: 1, data },
-          {}
+        expect(onCounters).toHaveBeenCalledWith({
+          nodesCreated: 1,
+          nodesDeleted: 0,
+          relationshipsCreated: 0,
+          relationshipsDeleted: 0,
+          propertiesSet: 4,
+          labelsAdded: 1,
+          labelsRemoved: 0,
+          containsUpdates: true
+        });
+      });
+
+      it('should return the node along with the counters of the insert', async () => {
+        // == Arrange ==
+        const onCounters = jest.fn();
+        const record = {
+          toObject: () => ({
+            n: new Node(int(1), ['TestLabel'], { id: 1, name: 'Test' })
+          })
+        };
+        jest
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .spyOn(neo4j as any, 'executeQuery')
+          .mockResolvedValueOnce(
+            mockResult({ nodesCreated: 1, propertiesSet: 2, labelsAdded: 1 }, [
+              record
+            ] as never)
+          );
+
+        // == Act ==
+        const mutation = await neo4j.insertWithCounters(
+          'TestLabel',
+          { name: 'Test' },
+          { onCounters }
         );
+
+        // == Assert ==
+        expect(mutation).toEqual({
+          result: { id: 1, name: 'Test', labels: ['TestLabel'] },
+          counters: {
+            nodesCreated: 1,
+            nodesDeleted: 0,
+            relationshipsCreated: 0,
+            relationshipsDeleted: 0,
+            propertiesSet: 2,
+            labelsAdded: 1,
+            labelsRemoved: 0,
+            containsUpdates: true
+          }
+        });
+        expect(onCounters).toHaveBeenCalledWith(mutation.counters);
       });
-    });
 
-    describe('upsert', () => {
-      it('should execute an upsert query', async () => {
+      it('should return whether the relationship was joined along with the counters', async () => {
         // == Arrange ==
-        const data = { name: 'Upsert Node' };
-        const expectSpy = jest.spyOn(neo4j, 'execute');
+        jest
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .spyOn(neo4j as any, 'executeQuery')
+          .mockResolvedValueOnce(
+            mockResult({ relationshipsCreated: 1 }, [{}] as never)
+          );
 
         // == Act ==
-        await neo4j.upsert('TestLabel', 1, data);
+        const mutation = await neo4j.joinWithCounters('KNOWS', 1, 2, 'from');
 
         // == Assert ==
-        expect(expectSpy).toHaveBeenCalledWith(
-          'MERGE (n:TestLabel {id: $id}) ON CREATE SET n += $data, n.createdAt = datetime(), n.updatedAt = datetime() ON MATCH SET n += $data, n.updatedAt = datetime() RETURN n',
-          { id: 1, data },
-          {}
-        );
+        expect(mutation.result).toBe(true);
+        expect(mutation.counters).toMatchObject({
+          relationshipsCreated: 1,
+          containsUpdates: true
+        });
       });
     });
-  });
 
-  describe('private methods', () => {
-    describe('parseResponse', () => {
-      it('should parse a Neo4j query result into an array of nodes', async () => {
+    describe('streaming', () => {
+      const mockNode = (id: number) =>
+        new Node(int(id), ['TestLabel'], { id, name: `Test ${id}` });
+
+      // Create a session which streams a record for each node, and
+      // records how many of them were pulled
+      const mockStreamSession = (count: number) => {
+        const pulled: number[] = [];
+
+        const session = {
+          run: jest.fn(() =>
+            (async function* () {
+              for (let id = 1; id <= count; id++) {
+                pulled.push(id);
+                yield new Neo4jRecord(['n'], [mockNode(id)]);
+              }
+            })()
+          ),
+          lastBookmarks: jest.fn().mockReturnValue([]),
+          close: jest.fn()
+        };
+
+        return { session, pulled };
+      };
+
+      it('should yield the decoded records and close the session', async () => {
         // == Arrange ==
-        // Create a mock QueryResult
-        const mockResult = {
-          records: [
-            {
-              toObject: jest.fn().mockReturnValue({
-                n: {
-                  properties: { id: 1, name: 'Test' },
-                  labels: ['TestLabel']
-                }
-              })
-            }
-          ]
-        } as unknown as QueryResult;
+        const { session } = mockStreamSession(2);
+        const mockDriver = { session: jest.fn().mockReturnValue(session) };
+        jest.mocked(driver).mockReturnValueOnce(mockDriver as never);
 
         // == Act ==
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const result = (neo4j as any).parseResponse(mockResult);
+        const rows = [];
+        for await (const row of neo4j.executeStream(
+          'MATCH (n) RETURN n',
+          {},
+          { accessMode: 'READ', fetchSize: 100 }
+        )) {
+          rows.push(row);
+        }
 
         // == Assert ==
-        expect(result).toEqual([
-          { id: 1, name: 'Test', labels: ['TestLabel'] }
+        expect(rows).toEqual([
+          { n: { id: 1, name: 'Test 1', labels: ['TestLabel'], _id: 1 } },
+          { n: { id: 2, name: 'Test 2', labels: ['TestLabel'], _id: 2 } }
+        ]);
+        expect(mockDriver.session).toHaveBeenCalledWith({
+          defaultAccessMode: 'READ',
+          fetchSize: 100
+        });
+        expect(session.close).toHaveBeenCalledTimes(1);
+      });
+
+      it('should stop pulling records and close the session when the iteration stops early', async () => {
+        // == Arrange ==
+        const { session, pulled } = mockStreamSession(1000);
+        const mockDriver = { session: jest.fn().mockReturnValue(session) };
+        jest.mocked(driver).mockReturnValueOnce(mockDriver as never);
+
+        // == Act ==
+        for await (const row of neo4j.executeStream('MATCH (n) RETURN n')) {
+          if (row) {
+            break;
+          }
+        }
+
+        // == Assert ==
+        expect(pulled).toEqual([1]);
+        expect(session.close).toHaveBeenCalledTimes(1);
+      });
+
+      it('should close the session when the query fails', async () => {
+        // == Arrange ==
+        const session = {
+          run: jest.fn(() =>
+            // eslint-disable-next-line require-yield
+            (async function* () {
+              throw new Error('Query failed');
+            })()
+          ),
+          lastBookmarks: jest.fn().mockReturnValue([]),
+          close: jest.fn()
+        };
+        const mockDriver = { session: jest.fn().mockReturnValue(session) };
+        jest.mocked(driver).mockReturnValueOnce(mockDriver as never);
+
+        // == Act ==
+        const consume = async () => {
+          for await (const row of neo4j.executeStream('MATCH (n) RETURN n')) {
+            expect(row).toBeUndefined();
+          }
+        };
+
+        // == Assert ==
+        await expect(consume()).rejects.toThrow('Query failed');
+        expect(session.close).toHaveBeenCalledTimes(1);
+      });
+
+      it('should stream the selected nodes', async () => {
+        // == Arrange ==
+        const { session } = mockStreamSession(2);
+        const mockDriver = { session: jest.fn().mockReturnValue(session) };
+        jest.mocked(driver).mockReturnValueOnce(mockDriver as never);
+
+        // == Act ==
+        const nodes = [];
+        for await (const node of neo4j.selectStream('TestLabel', {
+          where: { name: 'Test' }
+        })) {
+          nodes.push(node);
+        }
+
+        // == Assert ==
+        expect(session.run).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel {name: $n_name}) RETURN n',
+          { n_name: 'Test' }
+        );
+        expect(mockDriver.session).toHaveBeenCalledWith({
+          defaultAccessMode: 'READ'
+        });
+        expect(nodes).toEqual([
+          { id: 1, name: 'Test 1', labels: ['TestLabel'] },
+          { id: 2, name: 'Test 2', labels: ['TestLabel'] }
         ]);
       });
     });
+
+    describe('execute with retries', () => {
+      const deadlock = Object.assign(new Error('Deadlock detected'), {
+        code: 'Neo.TransientError.Transaction.DeadlockDetected'
+      });
+
+      let retrying: Neo4j;
+      let runInSessionSpy: jest.SpyInstance;
+
+      beforeEach(() => {
+        retrying = new Neo4j(mockLogger, {
+          retry: { initialDelay: 0, maxDelay: 0 }
+        });
+
+        runInSessionSpy = jest
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .spyOn(retrying as any, 'runInSession')
+          .mockRejectedValueOnce(deadlock)
+          .mockResolvedValueOnce({ records: [] });
+      });
+
+      it('should retry reads and log each retry', async () => {
+        // == Act ==
+        const result = await retrying.execute(
+          'MATCH (n) RETURN n',
+          {},
+          { accessMode: 'READ' }
+        );
+
+        // == Assert ==
+        expect(result).toEqual({ records: [] });
+        expect(runInSessionSpy).toHaveBeenCalledTimes(2);
+        expect(mockLogger.warn).toHaveBeenCalledWith(
+          'Retrying Neo4j query after a transient error',
+          expect.objectContaining({
+            attempt: 1,
+            code: 'Neo.TransientError.Transaction.DeadlockDetected'
+          })
+        );
+      });
+
+      it('should retry writes which are marked as idempotent', async () => {
+        // == Act ==
+        await retrying.execute(
+          'MERGE (n:TestLabel {id: 1})',
+          {},
+          { idempotent: true }
+        );
+
+        // == Assert ==
+        expect(runInSessionSpy).toHaveBeenCalledTimes(2);
+      });
+
+      it('should not retry writes which are not marked as idempotent', async () => {
+        // == Act & Assert ==
+        await expect(retrying.execute('CREATE (n:TestLabel)')).rejects.toThrow(
+          'Deadlock detected'
+        );
+        expect(runInSessionSpy).toHaveBeenCalledTimes(1);
+      });
+
+      it('should reject an invalid retry policy', () => {
+        // == Act & Assert ==
+        expect(
+          () => new Neo4j(mockLogger, { retry: { maxAttempts: 0 } })
+        ).toThrow(ConfigurationError);
+      });
+    });
+
+    describe('insert', () => {
+      it('should insert a node and return the properties', async () => {
+        // == Arrange ==
+        const data = { name: 'Test Node' };
+
+        // == Act ==
+        const result = await neo4j.insert('TestLabel', data);
+
+        // == Assert ==
+        expect(result).toEqual({ id: 1, name: 'Test', labels: ['TestLabel'] });
+      });
+
+      it('should escape the node label', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(neo4j, 'execute');
+
+        // == Act ==
+        await neo4j.insert('User $data) DETACH DELETE (n', { name: 'Test' });
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'CREATE (n:`User $data) DETACH DELETE (n` $data) RETURN n',
+          expect.anything(),
+          {}
+        );
+      });
+
+      it('should reject an empty node label', async () => {
+        // == Act & Assert ==
+        await expect(neo4j.insert('', { name: 'Test' })).rejects.toThrow(
+          InvalidIdentifierError
+        );
+      });
+    });
+
+    describe('join', () => {
+      it('should create a relationship between nodes with the specified direction', async () => {
+        // == Arrange ==
+        const directions: RelationshipDirections[] = [
+          'from',
+          'to',
+          'both',
+          'none'
+        ];
+
+        // == Act & Assert ==
+        for (const direction of directions) {
+          const result = await neo4j.join('RELATED_TO', 1, 2, direction);
+          expect(result).toBe(true);
+        }
+      });
+
+      it('should return false and log error if join fails', async () => {
+        // == Arrange ==
+        // Mock the execute method to throw an error
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        jest
+          .spyOn(neo4j as any, 'execute')
+          .mockRejectedValueOnce(new Error('Join failed'));
+
+        // == Act ==
+        const result = await neo4j.join('RELATED_TO', 1, 2, 'from');
+
+        // == Assert ==
+        expect(result).toBe(false);
+      });
+    });
+
+    describe('select', () => {
+      it('should select a node based on query parameters', async () => {
+        // == Arrange ==
+        const query = { where: { id: 1 } };
+
+        const expectSpy = jest.spyOn(neo4j, 'execute');
+
+        // == Act ==
+        await neo4j.select('TestLabel', query);
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel {id: $n_id}) RETURN n',
+          { n_id: 1 },
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should sort and page the selected nodes', async () => {
+        // == Arrange ==
+        const query = {
+          where: { active: true },
+          orderBy: { active: 'DESC' as const },
+          limit: 10,
+          offset: 20
+        };
+
+        const expectSpy = jest.spyOn(neo4j, 'execute');
+
+        // == Act ==
+        await neo4j.select('TestLabel', query);
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel {active: $n_active}) RETURN n ORDER BY n.active DESC, n.id ASC SKIP $skip LIMIT $limit',
+          { n_active: true, skip: int(20), limit: int(10) },
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should skip nodes when only an offset is given', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(neo4j, 'execute');
+
+        // == Act ==
+        await neo4j.select('TestLabel', { offset: 10 });
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel) RETURN n ORDER BY n.id ASC SKIP $skip',
+          { skip: int(10) },
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should only return nodes after the cursor', async () => {
+        // == Arrange ==
+        const query = {
+          orderBy: { name: 'ASC' as const },
+          cursor: encodeCursor(['Test', 1])
+        };
+
+        const expectSpy = jest.spyOn(neo4j, 'execute');
+
+        // == Act ==
+        await neo4j.select('TestLabel', query);
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel) WHERE (n.name > $n_name OR (n.name = $n_name_1 AND n.id > $n_id)) RETURN n ORDER BY n.name ASC, n.id ASC',
+          { n_name: 'Test', n_name_1: 'Test', n_id: 1 },
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should load the related nodes of the joined relationships', async () => {
+        // == Arrange ==
+        const query = {
+          where: { id: 1 },
+          join: { KNOWS: 'from' as const, WORKS_AT: 'none' as const },
+          limit: 5
+        };
+
+        const expectSpy = jest
+          .spyOn(neo4j, 'execute')
+          .mockResolvedValueOnce({ records: [] });
+
+        // == Act ==
+        await neo4j.select('TestLabel', query);
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel {id: $n_id}) OPTIONAL MATCH (n)-[r0:KNOWS]->(j0) OPTIONAL MATCH (n)-[r1:WORKS_AT]-(j1) WITH n, collect(DISTINCT j0) AS j0, collect(DISTINCT j1) AS j1 RETURN n, j0, j1 ORDER BY n.id ASC LIMIT $limit',
+          { n_id: 1, limit: int(5) },
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should nest the related nodes under the relationship type', async () => {
+        // == Arrange ==
+        const columns: Record<string, unknown> = {
+          n: new Node(int(1), ['TestLabel'], { id: 1, name: 'Alice' }),
+          j0: [new Node(int(2), ['TestLabel'], { id: 2, name: 'Bob' })],
+          j1: []
+        };
+
+        jest.spyOn(neo4j, 'execute').mockResolvedValueOnce({
+          records: [{ get: (key: string) => columns[key] }]
+        });
+
+        // == Act ==
+        const result = await neo4j.select('TestLabel', {
+          join: { KNOWS: 'from', WORKS_AT: 'none' }
+        });
+
+        // == Assert ==
+        expect(result).toEqual([
+          {
+            id: 1,
+            name: 'Alice',
+            labels: ['TestLabel'],
+            KNOWS: [{ id: 2, name: 'Bob', labels: ['TestLabel'] }],
+            WORKS_AT: []
+          }
+        ]);
+      });
+
+      it('should reject a sort direction which is not ASC or DESC', async () => {
+        // == Arrange ==
+        const query = {
+          orderBy: { name: 'ASC MATCH (x) DETACH DELETE x //' as 'ASC' }
+        };
+        const executeSpy = jest.spyOn(neo4j, 'execute');
+
+        // == Act & Assert ==
+        await expect(neo4j.select('TestLabel', query)).rejects.toThrow(
+          'Sort direction must be ASC or DESC'
+        );
+        expect(executeSpy).not.toHaveBeenCalled();
+      });
+
+      it('should throw when the cursor is malformed', async () => {
+        // == Arrange ==
+        const query = { cursor: 'not-a-cursor' };
+
+        // == Act & Assert ==
+        await expect(neo4j.select('TestLabel', query)).rejects.toThrow(
+          'Invalid cursor'
+        );
+      });
+    });
+
+    describe('selectPage', () => {
+      const mockNode = (id: number, properties = {}) =>
+        new Neo4jRecord(
+          ['n'],
+          [
+            new Node(int(id), ['TestLabel'], {
+              id: int(id),
+              name: `Test ${id}`,
+              ...properties
+            })
+          ]
+        );
+
+      it('should return the page, total and a cursor for the next page', async () => {
+        // == Arrange ==
+        const expectSpy = jest
+          .spyOn(neo4j, 'execute')
+          .mockResolvedValueOnce({ records: [{ get: () => int(3) }] })
+          .mockResolvedValueOnce({ records: [mockNode(1), mockNode(2)] });
+
+        // == Act ==
+        const page = await neo4j.selectPage('TestLabel', { limit: 1 });
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenNthCalledWith(
+          1,
+          'CALL { MATCH (n:TestLabel) RETURN n } RETURN count(n) AS total',
+          {},
+          { accessMode: 'READ' }
+        );
+        expect(expectSpy).toHaveBeenNthCalledWith(
+          2,
+          'MATCH (n:TestLabel) RETURN n ORDER BY n.id ASC LIMIT $limit',
+          { limit: int(2) },
+          { accessMode: 'READ' }
+        );
+        expect(page).toEqual({
+          items: [{ id: 1, name: 'Test 1', labels: ['TestLabel'] }],
+          total: 3,
+          nextCursor: encodeCursor([int(1)])
+        });
+      });
+
+      it('should return an empty page without a cursor when the limit is 0', async () => {
+        // == Arrange ==
+        jest
+          .spyOn(neo4j, 'execute')
+          .mockResolvedValueOnce({ records: [{ get: () => int(3) }] })
+          .mockResolvedValueOnce({ records: [mockNode(1)] });
+
+        // == Act ==
+        const page = await neo4j.selectPage('TestLabel', { limit: 0 });
+
+        // == Assert ==
+        expect(page).toEqual({ items: [], total: 3, nextCursor: null });
+      });
+
+      it.each([-1, 1.5])(
+        'should reject the limit %p before running a query',
+        async (limit) => {
+          // == Arrange ==
+          const expectSpy = jest.spyOn(neo4j, 'execute');
+
+          // == Act & Assert ==
+          await expect(
+            neo4j.selectPage('TestLabel', { limit })
+          ).rejects.toThrow('limit must be a non-negative integer');
+          expect(expectSpy).not.toHaveBeenCalled();
+        }
+      );
+
+      it('should continue after the last node when paging on a temporal', async () => {
+        // == Arrange ==
+        const createdAt = new DateTime(2024, 1, 2, 3, 4, 5, 0, 0);
+
+        const expectSpy = jest
+          .spyOn(neo4j, 'execute')
+          .mockResolvedValueOnce({ records: [{ get: () => int(3) }] })
+          .mockResolvedValueOnce({
+            records: [mockNode(1, { createdAt }), mockNode(2)]
+          })
+          .mockResolvedValueOnce({ records: [{ get: () => int(3) }] })
+          .mockResolvedValueOnce({ records: [] });
+
+        // == Act ==
+        const query = { orderBy: { createdAt: 'ASC' as const }, limit: 1 };
+        const page = await neo4j.selectPage('TestLabel', query);
+
+        await neo4j.selectPage('TestLabel', {
+          ...query,
+          cursor: page.nextCursor ?? undefined
+        });
+
+        // == Assert ==
+        expect(page.items[0]).toMatchObject({
+          createdAt: '2024-01-02T03:04:05Z'
+        });
+        expect(expectSpy).toHaveBeenLastCalledWith(
+          'MATCH (n:TestLabel) WHERE (n.createdAt > $n_createdAt OR (n.createdAt = $n_createdAt_1 AND n.id > $n_id)) RETURN n ORDER BY n.createdAt ASC, n.id ASC LIMIT $limit',
+          {
+            n_createdAt: createdAt,
+            n_createdAt_1: createdAt,
+            n_id: int(1),
+            limit: int(2)
+          },
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should encode a cursor when integers are returned as bigints', async () => {
+        // == Arrange ==
+        const db = new Neo4j(mockLogger, {
+          converter: new Neo4jValueConverter({ integers: 'bigint' })
+        });
+
+        jest
+          .spyOn(db, 'execute')
+          .mockResolvedValueOnce({ records: [{ get: () => int(3) }] })
+          .mockResolvedValueOnce({ records: [mockNode(1), mockNode(2)] });
+
+        // == Act ==
+        const page = await db.selectPage('TestLabel', { limit: 1 });
+
+        // == Assert ==
+        expect(page.items[0].id).toBe(BigInt(1));
+        expect(page.nextCursor).toBe(encodeCursor([int(1)]));
+      });
+
+      it('should not return a cursor on the last page', async () => {
+        // == Arrange ==
+        jest
+          .spyOn(neo4j, 'execute')
+          .mockResolvedValueOnce({ records: [{ get: () => int(1) }] })
+          .mockResolvedValueOnce({ records: [mockNode(1)] });
+
+        // == Act ==
+        const page = await neo4j.selectPage('TestLabel', { limit: 1 });
+
+        // == Assert ==
+        expect(page.total).toBe(1);
+        expect(page.nextCursor).toBeNull();
+      });
+    });
+
+    describe('transaction', () => {
+      it('should execute the callback passing the transaction', async () => {
+        // == Arrange ==
+        const callback = jest.fn().mockResolvedValue({ success: true });
+
+        const mockTransaction = jest.mocked(Transaction);
+        const executeWriteSpy = jest.fn().mockImplementation((callback) => {
+          callback(mockTransaction);
+          return Promise.resolve({ success: true });
+        });
+
+        jest.spyOn(neo4j as any, 'getSession').mockResolvedValue({
+          executeWrite: executeWriteSpy,
+          lastBookmarks: jest.fn().mockReturnValue([]),
+          close: jest.fn()
+        });
+
+        // == Act ==
+        await neo4j.transaction(callback);
+
+        // == Assert ==
+        expect(callback).toHaveBeenCalled();
+      });
+    });
+
+    describe('readTransaction', () => {
+      it('should execute the callback in a read transaction', async () => {
+        // == Arrange ==
+        const callback = jest.fn().mockResolvedValue({ success: true });
+        const executeReadSpy = jest
+          .fn()
+          .mockImplementation((callback) => callback({}));
+        const session = {
+          executeRead: executeReadSpy,
+          lastBookmarks: jest.fn().mockReturnValue(['bookmark:3']),
+          close: jest.fn()
+        };
+
+        const getSessionSpy = jest
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .spyOn(neo4j as any, 'getSession')
+          .mockResolvedValue(session);
+
+        // == Act ==
+        const result = await neo4j.readTransaction(callback, {
+          bookmarks: ['bookmark:1']
+        });
+
+        // == Assert ==
+        expect(result).toEqual({ success: true });
+        expect(getSessionSpy).toHaveBeenCalledWith({
+          accessMode: 'READ',
+          bookmarks: ['bookmark:1']
+        });
+        expect(executeReadSpy).toHaveBeenCalledWith(expect.any(Function));
+        expect(callback).toHaveBeenCalledWith({});
+        expect(session.close).toHaveBeenCalled();
+        expect(neo4j.getLastBookmarks()).toEqual(['bookmark:3']);
+      });
+    });
+
+    describe('ambient transactions', () => {
+      let transaction: { run: jest.Mock };
+      let session: {
+        run: jest.Mock;
+        executeRead: jest.Mock;
+        executeWrite: jest.Mock;
+        lastBookmarks: jest.Mock;
+        close: jest.Mock;
+      };
+      let getSessionSpy: jest.SpyInstance;
+
+      beforeEach(() => {
+        transaction = { run: jest.fn().mockResolvedValue({ records: [] }) };
+        session = {
+          run: jest.fn().mockResolvedValue({ records: [] }),
+          executeRead: jest.fn((work) => work(transaction)),
+          executeWrite: jest.fn((work) => work(transaction)),
+          lastBookmarks: jest.fn().mockReturnValue([]),
+          close: jest.fn()
+        };
+
+        getSessionSpy = jest
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .spyOn(Neo4j.prototype as any, 'getSession')
+          .mockResolvedValue(session);
+      });
+
+      afterEach(() => {
+        getSessionSpy.mockRestore();
+      });
+
+      it('should run the queries inside the callback in the transaction', async () => {
+        // == Arrange ==
+        const other = new Neo4j(mockLogger);
+
+        // == Act ==
+        await neo4j.transaction(async () => {
+          await neo4j.select('TestLabel', { where: { id: 1 } });
+          await other.select('TestLabel', { where: { id: 2 } });
+        });
+
+        // == Assert ==
+        expect(getSessionSpy).toHaveBeenCalledTimes(1);
+        expect(transaction.run).toHaveBeenCalledTimes(2);
+        expect(transaction.run).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel {id: $n_id}) RETURN n',
+          { n_id: 1 }
+        );
+      });
+
+      it('should not use the transaction once the callback has finished', async () => {
+        // == Arrange ==
+        await neo4j.transaction(async () => undefined);
+
+        // == Act ==
+        await neo4j.select('TestLabel', {});
+
+        // == Assert ==
+        expect(transaction.run).not.toHaveBeenCalled();
+        expect(session.run).toHaveBeenCalledTimes(1);
+        expect(getSessionSpy).toHaveBeenCalledTimes(2);
+      });
+
+      it('should reuse the outer transaction for nested transactions', async () => {
+        // == Arrange ==
+        const inner = jest.fn().mockResolvedValue('inner');
+
+        // == Act ==
+        const result = await neo4j.transaction(() =>
+          neo4j.readTransaction(inner)
+        );
+
+        // == Assert ==
+        expect(result).toBe('inner');
+        expect(inner).toHaveBeenCalledWith(transaction);
+        expect(session.executeWrite).toHaveBeenCalledTimes(1);
+        expect(session.executeRead).not.toHaveBeenCalled();
+      });
+
+      it('should roll back when a nested transaction fails', async () => {
+        // == Arrange ==
+        const failure = new Error('Nested failure');
+
+        // == Act & Assert ==
+        await expect(
+          neo4j.transaction(async () => {
+            // The error is caught, but the work of the nested transaction
+            // cannot be undone on its own
+            await neo4j
+              .transaction(() => Promise.reject(failure))
+              .catch(() => undefined);
+
+            return 'done';
+          })
+        ).rejects.toBe(failure);
+      });
+
+      it('should not start a write transaction inside a read transaction', async () => {
+        // == Act & Assert ==
+        await expect(
+          neo4j.readTransaction(() => neo4j.transaction(async () => undefined))
+        ).rejects.toThrow(
+          'Cannot start a write transaction inside a read transaction'
+        );
+      });
+    });
+
+    describe('update', () => {
+      it('should execute a update query', async () => {
+        // == Arrange ==
+        const data = { name: 'Updated Node' };
+
+        const expectSpy = jest.spyOn(neo4j, 'execute');
+
+        // == Act ==
+        await neo4j.update('TestLabel', 1, data);
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel) WHERE n.id = $id SET n += $data RETURN n',
+          { id: 1, data: { ...data, updatedAt: expect.any(DateTime) } },
+          {}
+        );
+      });
+    });
+
+    describe('upsert', () => {
+      it('should execute an upsert query', async () => {
+        // == Arrange ==
+        const data = { name: 'Upsert Node' };
+        const expectSpy = jest.spyOn(neo4j, 'execute');
+
+        // == Act ==
+        await neo4j.upsert('TestLabel', 1, data);
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MERGE (n:TestLabel {id: $id}) ON CREATE SET n += $data, n += $created ON MATCH SET n += $data, n += $updated RETURN n',
+          {
+            id: 1,
+            data,
+            created: {
+              createdAt: expect.any(DateTime),
+              updatedAt: expect.any(DateTime)
+            },
+            updated: { updatedAt: expect.any(DateTime) }
+          },
+          {}
+        );
+      });
+    });
+
+    describe('strict mode', () => {
+      const constraintError = Object.assign(new Error('Already exists'), {
+        code: 'Neo.ClientError.Schema.ConstraintValidationFailed'
+      });
+
+      let strict: Neo4j;
+
+      beforeEach(() => {
+        strict = new Neo4j(mockLogger, { strict: true });
+      });
+
+      it('should map driver errors to typed errors', async () => {
+        // == Arrange ==
+        jest
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .spyOn(strict as any, 'executeQuery')
+          .mockRejectedValueOnce(constraintError);
+
+        // == Act & Assert ==
+        await expect(
+          strict.insert('TestLabel', { name: 'Test' })
+        ).rejects.toThrow(ConstraintViolationError);
+      });
+
+      it('should not map driver errors outside of strict mode', async () => {
+        // == Arrange ==
+        jest
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .spyOn(neo4j as any, 'executeQuery')
+          .mockRejectedValueOnce(constraintError);
+
+        // == Act & Assert ==
+        await expect(neo4j.insert('TestLabel', { name: 'Test' })).rejects.toBe(
+          constraintError
+        );
+      });
+
+      it('should return true when the node was deleted', async () => {
+        // == Arrange ==
+        jest
+          .spyOn(strict, 'execute')
+          .mockResolvedValueOnce(mockResult({ nodesDeleted: 1 }));
+
+        // == Act ==
+        const result = await strict.delete('TestLabel', 1);
+
+        // == Assert ==
+        expect(result).toBe(true);
+      });
+
+      it('should throw when deleting a node which does not exist', async () => {
+        // == Arrange ==
+        jest.spyOn(strict, 'execute').mockResolvedValueOnce(mockResult());
+
+        // == Act & Assert ==
+        await expect(strict.delete('TestLabel', 1)).rejects.toThrow(
+          NotFoundError
+        );
+        expect(mockLogger.error).not.toHaveBeenCalled();
+      });
+
+      it('should throw when joining nodes which do not exist', async () => {
+        // == Arrange ==
+        jest.spyOn(strict, 'execute').mockResolvedValueOnce({ records: [] });
+
+        // == Act & Assert ==
+        await expect(strict.join('KNOWS', 1, 2, 'from')).rejects.toThrow(
+          'No node with id 1 or 2 was found'
+        );
+      });
+
+      it('should throw when updating a node which does not exist', async () => {
+        // == Arrange ==
+        jest.spyOn(strict, 'execute').mockResolvedValueOnce({ records: [] });
+
+        // == Act & Assert ==
+        await expect(
+          strict.update('TestLabel', 1, { name: 'Updated' })
+        ).rejects.toThrow(NotFoundError);
+      });
+    });
+
+    describe('id strategy', () => {
+      it('should generate an id when inserting a node', async () => {
+        // == Arrange ==
+        const db = new Neo4j(mockLogger, { idStrategy: 'uuid', audit: false });
+        const expectSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        await db.insert('TestLabel', { name: 'Test' });
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'CREATE (n:TestLabel $data) RETURN n',
+          {
+            data: { name: 'Test', id: expect.stringMatching(/^[0-9a-f-]{36}$/) }
+          },
+          {}
+        );
+      });
+
+      it('should keep an id supplied by the caller', async () => {
+        // == Arrange ==
+        const db = new Neo4j(mockLogger, { idStrategy: 'ulid', audit: false });
+        const expectSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        await db.insert('TestLabel', { id: 'custom', name: 'Test' });
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'CREATE (n:TestLabel $data) RETURN n',
+          { data: { id: 'custom', name: 'Test' } },
+          {}
+        );
+      });
+
+      it('should use the configured id property', async () => {
+        // == Arrange ==
+        const db = new Neo4j(mockLogger, { idProperty: 'uuid' });
+        const expectSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        await db.select('TestLabel', { where: { id: 'abc' } });
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel) WHERE n.uuid = $n_uuid RETURN n',
+          { n_uuid: 'abc' },
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should reject an invalid id property', () => {
+        // == Act & Assert ==
+        expect(() => new Neo4j(mockLogger, { idProperty: '' })).toThrow(
+          InvalidIdentifierError
+        );
+      });
+
+      it('should match nodes by their element id', async () => {
+        // == Arrange ==
+        const db = new Neo4j(mockLogger, { idStrategy: 'elementId' });
+        const expectSpy = jest
+          .spyOn(db, 'execute')
+          .mockResolvedValueOnce(mockResult({ nodesDeleted: 1 }));
+
+        // == Act ==
+        await db.delete('TestLabel', '4:abc:1');
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel) WHERE elementId(n) = $n_elementId DETACH DELETE n',
+          { n_elementId: '4:abc:1' },
+          {}
+        );
+      });
+
+      it('should return the element id of nodes', async () => {
+        // == Arrange ==
+        const db = new Neo4j(mockLogger, { idStrategy: 'elementId' });
+        const mockResult = {
+          records: [
+            {
+              toObject: jest.fn().mockReturnValue({
+                n: new Node(int(1), ['TestLabel'], { name: 'Test' }, '4:abc:1')
+              })
+            }
+          ]
+        } as unknown as QueryResult;
+
+        // == Act ==
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const result = (db as any).parseResponse(mockResult);
+
+        // == Assert ==
+        expect(result).toEqual([
+          { id: '4:abc:1', name: 'Test', labels: ['TestLabel'] }
+        ]);
+      });
+
+      it('should reject an upsert by element id', async () => {
+        // == Arrange ==
+        const db = new Neo4j(mockLogger, { idStrategy: 'elementId' });
+
+        // == Act & Assert ==
+        await expect(
+          db.upsert('TestLabel', '4:abc:1', { name: 'Test' })
+        ).rejects.toThrow(
+          'upsert() is not supported by the elementId strategy'
+        );
+      });
+    });
+
+    describe('soft delete', () => {
+      let db: Neo4j;
+
+      beforeEach(() => {
+        db = new Neo4j(mockLogger, {
+          audit: false,
+          softDelete: {
+            TestLabel: true,
+            Invoice: { property: 'removedAt', relationships: 'hide' }
+          }
+        });
+      });
+
+      it('should mark the node as deleted instead of removing it', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        const result = await db.delete('TestLabel', 1);
+
+        // == Assert ==
+        expect(result).toBe(true);
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel) WHERE n.id = $id AND n.deletedAt IS NULL SET n.deletedAt = $deletedAt, n += $updated RETURN n',
+          { id: 1, deletedAt: expect.any(DateTime), updated: {} },
+          {}
+        );
+      });
+
+      it('should hide the relationships of the node', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        await db.delete('Invoice', 1);
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:Invoice) WHERE n.id = $id AND n.removedAt IS NULL SET n.removedAt = $deletedAt, n += $updated FOREACH (r IN [(n)-[rel]-() WHERE rel.removedAt IS NULL | rel] | SET r.removedAt = $deletedAt) RETURN n',
+          expect.anything(),
+          {}
+        );
+      });
+
+      it('should detach the relationships of the node', async () => {
+        // == Arrange ==
+        const detaching = new Neo4j(mockLogger, {
+          softDelete: { TestLabel: { relationships: 'detach' } }
+        });
+        const expectSpy = jest.spyOn(detaching, 'execute');
+
+        // == Act ==
+        await detaching.delete('TestLabel', 1);
+
+        // == Assert ==
+        expect(expectSpy.mock.calls[0][0]).toContain(
+          'FOREACH (r IN [(n)-[rel]-() | rel] | DELETE r) RETURN n'
+        );
+      });
+
+      it('should return false when the node does not exist', async () => {
+        // == Arrange ==
+        jest.spyOn(db, 'execute').mockResolvedValueOnce({ records: [] });
+
+        // == Act ==
+        const result = await db.delete('TestLabel', 1);
+
+        // == Assert ==
+        expect(result).toBe(false);
+      });
+
+      it('should exclude deleted nodes from select', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        await db.select('TestLabel', { where: { name: 'Test' } });
+        await db.select('TestLabel', {
+          where: { name: 'Test' },
+          includeDeleted: true
+        });
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenNthCalledWith(
+          1,
+          'MATCH (n:TestLabel {name: $n_name}) WHERE n.deletedAt IS NULL RETURN n',
+          { n_name: 'Test' },
+          { accessMode: 'READ' }
+        );
+        expect(expectSpy).toHaveBeenNthCalledWith(
+          2,
+          'MATCH (n:TestLabel {name: $n_name}) RETURN n',
+          { n_name: 'Test' },
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should exclude deleted nodes and hidden relationships from the joined nodes', async () => {
+        // == Arrange ==
+        const expectSpy = jest
+          .spyOn(db, 'execute')
+          .mockResolvedValue({ records: [] });
+
+        // == Act ==
+        await db.select('TestLabel', { join: { BILLED: 'from' } });
+        await db.select('TestLabel', {
+          join: { BILLED: 'from' },
+          includeDeleted: true
+        });
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenNthCalledWith(
+          1,
+          'MATCH (n:TestLabel) WHERE n.deletedAt IS NULL OPTIONAL MATCH (n)-[r0:BILLED]->(j0) WHERE (r0.removedAt IS NULL AND j0.deletedAt IS NULL AND j0.removedAt IS NULL) WITH n, collect(DISTINCT j0) AS j0 RETURN n, j0',
+          {},
+          { accessMode: 'READ' }
+        );
+        expect(expectSpy).toHaveBeenNthCalledWith(
+          2,
+          'MATCH (n:TestLabel) OPTIONAL MATCH (n)-[r0:BILLED]->(j0) WITH n, collect(DISTINCT j0) AS j0 RETURN n, j0',
+          {},
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should exclude deleted joined nodes when the relationships are kept', async () => {
+        // == Arrange ==
+        const keepDb = new Neo4j(mockLogger, {
+          audit: false,
+          softDelete: { User: true }
+        });
+        const expectSpy = jest
+          .spyOn(keepDb, 'execute')
+          .mockResolvedValue({ records: [] });
+
+        // == Act ==
+        await keepDb.select('Post', { join: { WROTE: 'to' } });
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:Post) OPTIONAL MATCH (n)<-[r0:WROTE]-(j0) WHERE j0.deletedAt IS NULL WITH n, collect(DISTINCT j0) AS j0 RETURN n, j0',
+          {},
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should soft-delete a node selected by several labels', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(db, 'execute');
+        const purgeSpy = jest.spyOn(db, 'purge');
+
+        // == Act ==
+        await db.delete('TestLabel:TestLabel', 1);
+
+        // == Assert ==
+        expect(purgeSpy).not.toHaveBeenCalled();
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel:TestLabel) WHERE n.id = $id AND n.deletedAt IS NULL SET n.deletedAt = $deletedAt, n += $updated RETURN n',
+          { id: 1, deletedAt: expect.any(DateTime), updated: {} },
+          {}
+        );
+      });
+
+      it('should exclude deleted nodes when selecting by several labels', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        await db.select('User:TestLabel', { where: { name: 'Test' } });
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:User:TestLabel {name: $n_name}) WHERE n.deletedAt IS NULL RETURN n',
+          { n_name: 'Test' },
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should reject labels with different soft-delete policies', async () => {
+        // == Act & Assert ==
+        await expect(db.delete('TestLabel:Invoice', 1)).rejects.toThrow(
+          'The labels "TestLabel:Invoice" have different soft-delete policies'
+        );
+      });
+
+      it('should restore the node and the relationships it hid', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        const node = await db.restore('Invoice', 1);
+
+        // == Assert ==
+        expect(node).toEqual({ id: 1, name: 'Test', labels: ['TestLabel'] });
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:Invoice) WHERE n.id = $id AND n.removedAt IS NOT NULL FOREACH (r IN [(n)-[rel]-() WHERE rel.removedAt = n.removedAt | rel] | REMOVE r.removedAt) REMOVE n.removedAt SET n += $updated RETURN n',
+          { id: 1, updated: {} },
+          {}
+        );
+      });
+
+      it('should reject restoring a label without soft delete', async () => {
+        // == Act & Assert ==
+        await expect(db.restore('User', 1)).rejects.toThrow(
+          'Soft delete is not enabled for the "User" label'
+        );
+      });
+
+      it('should permanently delete the node when purged', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(db, 'executeWithSummary');
+
+        // == Act ==
+        const result = await db.purge('TestLabel', 1);
+
+        // == Assert ==
+        expect(result).toBe(true);
+        expect(expectSpy).toHaveBeenCalledWith(
+          'MATCH (n:TestLabel) WHERE n.id = $n_id DETACH DELETE n',
+          { n_id: 1 },
+          {}
+        );
+      });
+    });
+
+    describe('bulk operations', () => {
+      let db: Neo4j;
+
+      beforeEach(() => {
+        db = new Neo4j(mockLogger, { audit: false });
+      });
+
+      it('should insert the rows in chunks', async () => {
+        // == Arrange ==
+        const rows = [{ name: 'A' }, { name: 'B' }, { name: 'C' }];
+        const onProgress = jest.fn();
+        const expectSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        const result = await db.insertMany('TestLabel', rows, {
+          chunkSize: 2,
+          onProgress
+        });
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenNthCalledWith(
+          1,
+          'UNWIND $rows AS row CREATE (n:TestLabel) SET n += row RETURN n',
+          { rows: [{ name: 'A' }, { name: 'B' }] },
+          {}
+        );
+        expect(expectSpy).toHaveBeenNthCalledWith(
+          2,
+          expect.any(String),
+          { rows: [{ name: 'C' }] },
+          {}
+        );
+        expect(result).toMatchObject({ succeeded: 3, failed: 0, errors: [] });
+        expect(result.results).toHaveLength(2);
+        expect(onProgress).toHaveBeenLastCalledWith({
+          chunk: 1,
+          chunks: 2,
+          processed: 3,
+          failed: 0,
+          total: 3
+        });
+      });
+
+      it('should report the chunks which failed and continue', async () => {
+        // == Arrange ==
+        const rows = [{ name: 'A' }, { name: 'B' }, { name: 'C' }];
+        const error = new Error('Deadlock');
+        jest.spyOn(db, 'execute').mockRejectedValueOnce(error);
+
+        // == Act ==
+        const result = await db.insertMany('TestLabel', rows, {
+          chunkSize: 2
+        });
+
+        // == Assert ==
+        expect(result.succeeded).toBe(1);
+        expect(result.failed).toBe(2);
+        expect(result.errors).toEqual([
+          { chunk: 0, offset: 0, rows: [{ name: 'A' }, { name: 'B' }], error }
+        ]);
+        expect(mockLogger.error).toHaveBeenCalledWith(
+          error,
+          'Unable to write chunk',
+          { chunk: 0 }
+        );
+      });
+
+      it('should reject an invalid chunk size', async () => {
+        // == Act & Assert ==
+        await expect(
+          db.insertMany('TestLabel', [{ name: 'A' }], { chunkSize: 0 })
+        ).rejects.toThrow('Chunk size must be a positive integer');
+      });
+
+      it('should merge the rows on the id property', async () => {
+        // == Arrange ==
+        const rows = [{ id: 1, name: 'A' }];
+        const expectSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        await db.upsertMany('TestLabel', rows);
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'UNWIND $rows AS row MERGE (n:TestLabel {id: row.id}) ON CREATE SET n += row, n += $created ON MATCH SET n += row, n += $updated RETURN n',
+          { rows, created: {}, updated: {} },
+          { idempotent: true }
+        );
+      });
+
+      it('should reject upserting rows without an id', async () => {
+        // == Act & Assert ==
+        await expect(
+          db.upsertMany('TestLabel', [{ id: 1 }, { name: 'B' }])
+        ).rejects.toThrow(
+          'Every row passed to upsertMany() must contain the "id" property'
+        );
+      });
+
+      it('should return the ids of the deleted nodes', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(db, 'execute').mockResolvedValueOnce({
+          records: [{ get: () => int(1) }]
+        });
+
+        // == Act ==
+        const result = await db.deleteMany('TestLabel', [1, 2]);
+
+        // == Assert ==
+        expect(result.results).toEqual([1]);
+        expect(expectSpy).toHaveBeenCalledWith(
+          'UNWIND $ids AS id MATCH (n:TestLabel) WHERE n.id = id DETACH DELETE n RETURN id',
+          { ids: [1, 2] },
+          { idempotent: true }
+        );
+      });
+
+      it('should soft delete the nodes of soft-deleted labels', async () => {
+        // == Arrange ==
+        const softDb = new Neo4j(mockLogger, {
+          audit: false,
+          softDelete: { TestLabel: true }
+        });
+        const expectSpy = jest
+          .spyOn(softDb, 'execute')
+          .mockResolvedValueOnce({ records: [] });
+
+        // == Act ==
+        await softDb.deleteMany('TestLabel', [1]);
+
+        // == Assert ==
+        expect(expectSpy).toHaveBeenCalledWith(
+          'UNWIND $ids AS id MATCH (n:TestLabel) WHERE n.id = id AND n.deletedAt IS NULL SET n.deletedAt = $deletedAt, n += $updated RETURN id',
+          { ids: [1], deletedAt: expect.any(DateTime), updated: {} },
+          { idempotent: true }
+        );
+      });
+    });
+
+    describe('relationships', () => {
+      let db: Neo4j;
+
+      // Create a result with one relationship from node 1 to node 2
+      const relationshipResult = () => ({
+        records: [
+          {
+            get: (key: string) =>
+              ({
+                r: new Relationship(int(3), int(1), int(2), 'KNOWS', {
+                  since: int(2020)
+                }),
+                startId: int(1),
+                endId: int(2)
+              })[key]
+          }
+        ]
+      });
+
+      beforeEach(() => {
+        db = new Neo4j(mockLogger, {
+          softDelete: {
+            Person: true,
+            Invoice: { property: 'removedAt', relationships: 'hide' }
+          }
+        });
+      });
+
+      it('should join labelled nodes and set the relationship properties', async () => {
+        // == Arrange ==
+        const executeSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        const result = await db.join('KNOWS', 1, 2, 'from', {
+          sourceLabel: 'Person',
+          targetLabel: 'Person',
+          properties: { since: 2020 }
+        });
+
+        // == Assert ==
+        expect(result).toBe(true);
+        expect(executeSpy).toHaveBeenCalledWith(
+          'MATCH (s:Person) WHERE s.id = $source MATCH (t:Person) WHERE t.id = $target MERGE (s)-[r:KNOWS]->(t) SET r += $properties RETURN r',
+          { source: 1, target: 2, properties: { since: 2020 } },
+          {}
+        );
+      });
+
+      it('should delete the relationship between two nodes', async () => {
+        // == Arrange ==
+        const executeSpy = jest
+          .spyOn(db, 'execute')
+          .mockResolvedValueOnce(mockResult({ relationshipsDeleted: 1 }));
+
+        // == Act ==
+        const result = await db.unjoin('KNOWS', 1, 2, 'to', {
+          sourceLabel: 'Person'
+        });
+
+        // == Assert ==
+        expect(result).toBe(true);
+        expect(executeSpy).toHaveBeenCalledWith(
+          'MATCH (s:Person)<-[r:KNOWS]-(t) WHERE s.id = $source AND t.id = $target DELETE r',
+          { source: 1, target: 2 },
+          {}
+        );
+      });
+
+      it('should return false when there is no relationship to delete', async () => {
+        // == Arrange ==
+        jest.spyOn(db, 'execute').mockResolvedValueOnce(mockResult());
+
+        // == Act ==
+        const result = await db.unjoin('KNOWS', 1, 2);
+
+        // == Assert ==
+        expect(result).toBe(false);
+      });
+
+      it('should throw in strict mode when there is no relationship to delete', async () => {
+        // == Arrange ==
+        const strict = new Neo4j(mockLogger, { strict: true });
+        jest.spyOn(strict, 'execute').mockResolvedValueOnce(mockResult());
+
+        // == Act & Assert ==
+        await expect(strict.unjoin('KNOWS', 1, 2)).rejects.toThrow(
+          'No "KNOWS" relationship between 1 and 2 was found'
+        );
+      });
+
+      it('should update the relationship properties', async () => {
+        // == Arrange ==
+        const executeSpy = jest
+          .spyOn(db, 'execute')
+          .mockResolvedValueOnce(relationshipResult());
+
+        // == Act ==
+        const result = await db.updateRelationship('KNOWS', 1, 2, {
+          since: 2020
+        });
+
+        // == Assert ==
+        expect(result).toEqual([
+          { since: 2020, type: 'KNOWS', start: 1, end: 2 }
+        ]);
+        expect(executeSpy).toHaveBeenCalledWith(
+          'MATCH (s)-[r:KNOWS]->(t) WHERE s.id = $source AND t.id = $target SET r += $data RETURN r, startNode(r).id AS startId, endNode(r).id AS endId',
+          { source: 1, target: 2, data: { since: 2020 } },
+          {}
+        );
+      });
+
+      it('should throw in strict mode when there is no relationship to update', async () => {
+        // == Arrange ==
+        const strict = new Neo4j(mockLogger, { strict: true });
+        jest.spyOn(strict, 'execute').mockResolvedValueOnce({ records: [] });
+
+        // == Act & Assert ==
+        await expect(
+          strict.updateRelationship('KNOWS', 1, 2, { since: 2020 })
+        ).rejects.toThrow(NotFoundError);
+      });
+
+      it('should select relationships by endpoint and property', async () => {
+        // == Arrange ==
+        const executeSpy = jest
+          .spyOn(db, 'execute')
+          .mockResolvedValueOnce(relationshipResult());
+
+        // == Act ==
+        const result = await db.selectRelationships('KNOWS', {
+          source: 1,
+          sourceLabel: 'Person',
+          where: { since: 2020 },
+          limit: 10
+        });
+
+        // == Assert ==
+        expect(result).toHaveLength(1);
+        expect(executeSpy).toHaveBeenCalledWith(
+          'MATCH (s:Person)-[r:KNOWS]->(t) WHERE s.id = $source AND r.since = $r_0 AND s.deletedAt IS NULL RETURN r, startNode(r).id AS startId, endNode(r).id AS endId LIMIT $limit',
+          { source: 1, r_0: 2020, limit: int(10) },
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should leave out the relationships hidden by a soft delete', async () => {
+        // == Arrange ==
+        const executeSpy = jest
+          .spyOn(db, 'execute')
+          .mockResolvedValueOnce({ records: [] });
+
+        // == Act ==
+        await db.selectRelationships('BILLED_TO', {
+          direction: 'to',
+          sourceLabel: 'Invoice',
+          targetLabel: 'Invoice'
+        });
+
+        // == Assert ==
+        expect(executeSpy).toHaveBeenCalledWith(
+          'MATCH (s:Invoice)<-[r:BILLED_TO]-(t:Invoice) WHERE s.removedAt IS NULL AND r.removedAt IS NULL AND t.removedAt IS NULL RETURN r, startNode(r).id AS startId, endNode(r).id AS endId',
+          {},
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should include the deleted relationships when asked to', async () => {
+        // == Arrange ==
+        const executeSpy = jest
+          .spyOn(db, 'execute')
+          .mockResolvedValueOnce({ records: [] });
+
+        // == Act ==
+        await db.selectRelationships('BILLED_TO', {
+          sourceLabel: 'Invoice',
+          includeDeleted: true
+        });
+
+        // == Assert ==
+        expect(executeSpy).toHaveBeenCalledWith(
+          'MATCH (s:Invoice)-[r:BILLED_TO]->(t) RETURN r, startNode(r).id AS startId, endNode(r).id AS endId',
+          {},
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should reject an invalid limit', async () => {
+        // == Act & Assert ==
+        await expect(
+          db.selectRelationships('KNOWS', { limit: -1 })
+        ).rejects.toThrow('limit must be a non-negative integer');
+      });
+    });
+
+    describe('traversal', () => {
+      const alice = new Node(int(1), ['Person'], { id: 1, name: 'Alice' });
+      const bob = new Node(int(2), ['Person'], { id: 2, name: 'Bob' });
+      const carol = new Node(int(3), ['Person'], { id: 3, name: 'Carol' });
+
+      const knowsBob = new Relationship(int(10), int(1), int(2), 'KNOWS', {});
+      const carolKnows = new Relationship(int(11), int(3), int(2), 'KNOWS', {});
+
+      // Alice knows Bob, and Bob is known by Carol
+      const path = new Path(alice, carol, [
+        new PathSegment(alice, knowsBob, bob),
+        new PathSegment(bob, carolKnows, carol)
+      ]);
+
+      it('should select the neighbors within the depth', async () => {
+        // == Arrange ==
+        const executeSpy = jest
+          .spyOn(neo4j, 'execute')
+          .mockResolvedValueOnce({ records: [] });
+
+        // == Act ==
+        await neo4j.neighbors(1, {
+          label: 'Person',
+          types: ['KNOWS', 'FOLLOWS'],
+          direction: 'from',
+          depth: 2
+        });
+
+        // == Assert ==
+        expect(executeSpy).toHaveBeenCalledWith(
+          'MATCH (n:Person)-[r:KNOWS|FOLLOWS*1..2]->(m) WHERE n.id = $id AND m <> n RETURN DISTINCT m',
+          { id: 1 },
+          { accessMode: 'READ' }
+        );
+      });
+
+      it('should reject a depth which is not a positive integer', async () => {
+        // == Act & Assert ==
+        await expect(neo4j.neighbors(1, { depth: 0 })).rejects.toThrow(
+          'depth must be a positive integer'
+        );
+      });
+
+      it('should expand a node into the subgraph around it', async () => {
+        // == Arrange ==
+        const columns: Record<string, unknown> = { n: alice, p: path };
+        const executeSpy = jest.spyOn(neo4j, 'execute').mockResolvedValueOnce({
+          records: [{ get: (key: string) => columns[key] }]
+        });
+
+        // == Act ==
+        const result = await neo4j.expand(1, { depth: 2 });
+
+        // == Assert ==
+        expect(executeSpy).toHaveBeenCalledWith(
+          'MATCH (n) WHERE n.id = $id OPTIONAL MATCH p = (n)-[r*1..2]-(m) RETURN n, p',
+          { id: 1 },
+          { accessMode: 'READ' }
+        );
+        expect(result.nodes.map(({ id }) => id)).toEqual([1, 2, 3]);
+        expect(result.relationships).toEqual([
+          { type: 'KNOWS', start: 1, end: 2 },
+          { type: 'KNOWS', start: 3, end: 2 }
+        ]);
+      });
+
+      it('should return the start node when it has no neighbors', async () => {
+        // == Arrange ==
+        const columns: Record<string, unknown> = { n: alice, p: null };
+        jest.spyOn(neo4j, 'execute').mockResolvedValueOnce({
+          records: [{ get: (key: string) => columns[key] }]
+        });
+
+        // == Act ==
+        const result = await neo4j.expand(1);
+
+        // == Assert ==
+        expect(result).toEqual({
+          nodes: [{ id: 1, name: 'Alice', labels: ['Person'] }],
+          relationships: []
+        });
+      });
+
+      it('should find the shortest path between two nodes', async () => {
+        // == Arrange ==
+        const executeSpy = jest.spyOn(neo4j, 'execute').mockResolvedValueOnce({
+          records: [{ get: () => path }]
+        });
+
+        // == Act ==
+        const result = await neo4j.shortestPath(1, 3, {
+          sourceLabel: 'Person',
+          targetLabel: 'Person',
+          types: ['KNOWS'],
+          maxDepth: 4
+        });
+
+        // == Assert ==
+        expect(executeSpy).toHaveBeenCalledWith(
+          'MATCH (s:Person) WHERE s.id = $source MATCH (t:Person) WHERE t.id = $target MATCH p = shortestPath((s)-[r:KNOWS*1..4]-(t)) RETURN p',
+          { source: 1, target: 3 },
+          { accessMode: 'READ' }
+        );
+        expect(result?.nodes.map(({ id }) => id)).toEqual([1, 2, 3]);
+        expect(result?.relationships).toEqual([
+          { type: 'KNOWS', start: 1, end: 2 },
+          { type: 'KNOWS', start: 3, end: 2 }
+        ]);
+      });
+
+      it('should return null when the nodes are not connected', async () => {
+        // == Arrange ==
+        jest.spyOn(neo4j, 'execute').mockResolvedValueOnce({ records: [] });
+
+        // == Act ==
+        const result = await neo4j.shortestPath(1, 3);
+
+        // == Assert ==
+        expect(result).toBeNull();
+      });
+
+      it('should find all of the shortest paths between two nodes', async () => {
+        // == Arrange ==
+        const executeSpy = jest.spyOn(neo4j, 'execute').mockResolvedValueOnce({
+          records: [{ get: () => path }, { get: () => path }]
+        });
+
+        // == Act ==
+        const result = await neo4j.allShortestPaths(1, 3, {
+          direction: 'from'
+        });
+
+        // == Assert ==
+        expect(result).toHaveLength(2);
+        expect(executeSpy).toHaveBeenCalledWith(
+          'MATCH (s) WHERE s.id = $source MATCH (t) WHERE t.id = $target MATCH p = allShortestPaths((s)-[r*1..]->(t)) RETURN p',
+          { source: 1, target: 3 },
+          { accessMode: 'READ' }
+        );
+      });
+    });
+
+    describe('audit fields', () => {
+      const now = new Date('2024-01-02T03:04:05.000Z');
+
+      beforeEach(() => {
+        jest.useFakeTimers({ now });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should stamp the creation time and actor on insert', async () => {
+        // == Arrange ==
+        const expectSpy = jest.spyOn(neo4j, 'execute');
+
+        // == Act ==
+        await neo4j.insert('TestLabel', { name: 'Test' }, { actor: 'alice' });
+
+        // == Assert ==
+        const [, params] = expectSpy.mock.calls[0];
+        const data = params?.data as Record<string, DateTime>;
+
+        expect(data.createdAt.toStandardDate()).toEqual(now);
+        expect(data.updatedAt).toEqual(data.createdAt);
+        expect(data).toMatchObject({ createdBy: 'alice', updatedBy: 'alice' });
+      });
+
+      it('should use the configured field names and timestamp type', async () => {
+        // == Arrange ==
+        const db = new Neo4j(mockLogger, {
+          audit: {
+            createdAt: 'created_on',
+            updatedAt: false,
+            updatedBy: 'modified_by',
+            timestamps: 'string'
+          }
+        });
+        const expectSpy = jest.spyOn(db, 'execute');
+
+        // == Act ==
+        await db.update('TestLabel', 1, { name: 'Test' }, { actor: 'bob' });
+        await db.insert('TestLabel', { name: 'Test' });
+
+        // == Assert ==
+        expect(expectSpy.mock.calls[0][1]?.data).toEqual({
+          name: 'Test',
+          modified_by: 'bob'
+        });
+        expect(expectSpy.mock.calls[1][1]?.data).toEqual({
+          name: 'Test',
+          created_on: '2024-01-02T03:04:05.000Z'
+        });
+      });
+
+      it('should stamp the nodes written by the query builder', () => {
+        // == Arrange ==
+        const db = new Neo4j(mockLogger, { audit: { timestamps: 'number' } });
+
+        // == Act ==
+        const { query, params } = db
+          .queryBuilder('alice')
+          .createNode('User', { name: 'Test' }, 'u', { mode: 'create' })
+          .build();
+
+        // == Assert ==
+        expect(query).toBe(
+          'CREATE (u:User {name: $u_name, createdAt: $u_createdAt, createdBy: $u_createdBy, updatedAt: $u_updatedAt, updatedBy: $u_updatedBy}) RETURN u'
+        );
+        expect(params).toEqual({
+          u_name: 'Test',
+          u_createdAt: now.getTime(),
+          u_createdBy: 'alice',
+          u_updatedAt: now.getTime(),
+          u_updatedBy: 'alice'
+        });
+      });
+
+      it('should reject an invalid audit field', () => {
+        // == Act & Assert ==
+        expect(
+          () => new Neo4j(mockLogger, { audit: { createdAt: '' } })
+        ).toThrow(ConfigurationError);
+      });
+    });
+  });
+
+  describe('private methods', () => {
+    describe('parseResponse', () => {
+      it('should parse a Neo4j query result into an array of nodes', async () => {
+        // == Arrange ==
+        // Create a mock QueryResult
+        const mockResult = {
+          records: [
+            {
+              toObject: jest.fn().mockReturnValue({
+                n: new Node(int(1), ['TestLabel'], { id: 1, name: 'Test' })
+              })
+            }
+          ]
+        } as unknown as QueryResult;
+
+        // == Act ==
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const result = (neo4j as any).parseResponse(mockResult);
+
+        // == Assert ==
+        expect(result).toEqual([
+          { id: 1, name: 'Test', labels: ['TestLabel'] }
+        ]);
+      });
+
+      it('should decode the values of columns which are not nodes', async () => {
+        // == Arrange ==
+        const mockResult = {
+          records: [
+            {
+              toObject: jest.fn().mockReturnValue({
+                total: int(2),
+                names: ['Test']
+              })
+            }
+          ]
+        } as unknown as QueryResult;
+
+        // == Act ==
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const result = (neo4j as any).parseResponse(mockResult);
+
+        // == Assert ==
+        expect(result).toEqual([2, ['Test']]);
+      });
+    });
   });
 });
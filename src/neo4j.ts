@@ -1,356 +1,2728 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import {
+  BookmarkManager,
   Driver,
   Session,
   driver,
-  auth,
   QueryResult,
-  ManagedTransaction
+  ManagedTransaction,
+  Neo4jError,
+  int,
+  isNode,
+  Node as Neo4jNode,
+  Notification,
+  Path,
+  Record as Neo4jRecord,
+  Relationship as Neo4jRelationship,
+  ResultSummary
 } from 'neo4j-driver';
 import {
+  Neo4jConnectionConfig,
+  ResolvedConnectionConfig,
+  createAuthToken,
+  createDriverConfig,
+  resolveConnectionConfig
+} from './config';
+import {
+  AccessMode,
+  BulkOptions,
+  BulkResult,
   Database,
+  JoinInterface,
+  JoinOptions,
+  Joined,
+  Page,
   QueryInterface,
   QueryOptions,
-  RelationshipDirections
+  RecordId,
+  RelationshipDirections,
+  RelationshipEndpoints,
+  RelationshipQuery,
+  SortDirection
 } from './database';
+import { ConfigurationError, NotFoundError, mapNeo4jError } from './errors';
 import { Logger } from './logging';
 import { Neo4jQueryBuilder } from './query-builder';
-import { parseDateProperties } from './helpers';
+import { chunk, decodeCursor, encodeCursor, omit } from './helpers';
+import {
+  decodeNode,
+  decodeRecord,
+  decodeRelationship,
+  decodeValue
+} from './decoder';
+import { ValueConverter, defaultConverter, encodeValue } from './converter';
+import {
+  escapeIdentifier,
+  escapeLabel,
+  escapeRelationshipType
+} from './identifiers';
+import { IdStrategy, generateId } from './ids';
+import { Reference } from './where-builder';
+import { RetryPolicy, resolveRetryPolicy, withRetry } from './retry';
+import {
+  AuditPolicy,
+  createdFields,
+  formatTimestamp,
+  resolveAuditPolicy,
+  updatedFields
+} from './audit';
+import { SoftDeletePolicy, resolveSoftDeletePolicies } from './soft-delete';
+
+/**
+ * A node returned by the CRUD methods.  The `id` is read using the
+ * configured ID strategy.
+ * @template T - The type of the node properties
+ * @template Key - The type of the node ID
+ */
+export type Node<T, Key extends RecordId = RecordId> = T & {
+  labels: string[];
+  id: Key;
+};
+
+/**
+ * A node returned by `select`, along with the related nodes of the
+ * relationship types which were joined
+ * @template T - The type of the node properties
+ * @template Join - The relationship types which were joined
+ */
+export type Selected<T, Join extends JoinInterface> = Node<T> &
+  Joined<Join, Node<object>>;
+
+/**
+ * A relationship returned by the relationship methods.  `start` and `end`
+ * are the IDs of the nodes the relationship goes from and to, read using
+ * the configured ID strategy.
+ * @template T - The type of the relationship properties
+ * @template Key - The type of the node IDs
+ */
+export type Relationship<T, Key extends RecordId = RecordId> = T & {
+  type: string;
+  start: Key;
+  end: Key;
+};
+
+/**
+ * Nodes and the relationships between them.  The `start` and `end` of each
+ * relationship are the IDs of nodes in the graph.
+ */
+export interface Subgraph {
+  nodes: Node<object>[];
+  relationships: Relationship<object>[];
+}
+
+/**
+ * A path through the graph.  The nodes are listed in the order they are
+ * traversed, so relationship `i` connects node `i` and node `i + 1`.
+ */
+export type GraphPath = Subgraph;
+
+/**
+ * Options for traversing the graph from a node
+ */
+export interface TraversalOptions {
+  /**
+   * Label of the start node, which lets Neo4j find it using the indexes
+   * of the label
+   */
+  label?: string;
+
+  /**
+   * Relationship types to traverse (default: all types)
+   */
+  types?: string[];
+
+  /**
+   * Direction of the relationships to traverse (default: 'none')
+   */
+  direction?: RelationshipDirections;
+
+  /**
+   * Maximum number of hops from the start node (default: 1)
+   */
+  depth?: number;
+}
+
+/**
+ * Options for finding the shortest paths between two nodes
+ */
+export interface ShortestPathOptions extends RelationshipEndpoints {
+  /**
+   * Relationship types to traverse (default: all types)
+   */
+  types?: string[];
+
+  /**
+   * Direction of the relationships to traverse (default: 'none')
+   */
+  direction?: RelationshipDirections;
+
+  /**
+   * Maximum number of relationships in the path (default: unlimited)
+   */
+  maxDepth?: number;
+}
+
+/**
+ * Check if a value is a logger rather than a connection config, so that
+ * `Neo4j.connect(logger)` keeps working
+ * @param value The value to check
+ */
+function isLogger(value: unknown): value is Logger {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Logger).log === 'function'
+  );
+}
+
+/**
+ * Name of the connection used when none is provided
+ */
+export const DEFAULT_CONNECTION = 'default';
+
+/**
+ * Options used to bind a Neo4j instance to a connection
+ */
+export interface Neo4jOptions {
+  /**
+   * Name of the registered connection to use (defaults to 'default')
+   */
+  connection?: string;
+
+  /**
+   * Name of the database to open sessions against, overriding the connection config
+   */
+  database?: string;
+
+  /**
+   * Bookmark manager shared by every session opened by the instance, so that
+   * each query sees the writes of the queries which completed before it
+   */
+  bookmarkManager?: BookmarkManager;
+
+  /**
+   * Settings used to retry idempotent queries which fail with a transient error
+   */
+  retry?: Partial<RetryPolicy>;
+
+  /**
+   * Throw typed errors instead of returning false or raw driver errors.
+   * Driver errors are mapped to `DatabaseError` subclasses, and updating,
+   * deleting or joining missing nodes throws a `NotFoundError`.
+   */
+  strict?: boolean;
+
+  /**
+   * Converter applied to query parameters and to the values returned by
+   * `parseResponse`.  Defaults to a `Neo4jValueConverter` returning
+   * numbers and ISO strings.
+   */
+  converter?: ValueConverter;
+
+  /**
+   * How nodes are identified by the CRUD methods (default: 'property')
+   */
+  idStrategy?: IdStrategy;
+
+  /**
+   * Property holding the ID of the nodes, ignored by the 'elementId'
+   * strategy (default: 'id')
+   */
+  idProperty?: string;
+
+  /**
+   * Audit fields written to the nodes created or updated by the instance,
+   * or false to not write any (default: createdAt and updatedAt as
+   * DateTimes, and createdBy and updatedBy when an actor is provided)
+   */
+  audit?: Partial<AuditPolicy> | false;
+
+  /**
+   * Labels whose nodes are soft-deleted by `delete`, keyed by label.  Use
+   * true for the defaults, or override the property and what happens to
+   * the relationships of the node.
+   */
+  softDelete?: Record<string, Partial<SoftDeletePolicy> | boolean>;
+}
+
+/**
+ * Options used when running a query against Neo4j
+ */
+export interface Neo4jQueryOptions
+  extends QueryOptions<Session, ManagedTransaction> {
+  /**
+   * Bookmarks which the database must have caught up to before the query
+   * runs.  Ignored when a session or transaction is provided.
+   */
+  bookmarks?: string[];
+
+  /**
+   * Marks the query as safe to run more than once, so that it is retried
+   * when it fails with a transient error.  Reads are idempotent by default.
+   */
+  idempotent?: boolean;
+
+  /**
+   * Actor recorded in the `createdBy` and `updatedBy` audit fields of the
+   * nodes written by the CRUD methods
+   */
+  actor?: string;
+
+  /**
+   * Called with the changes made to the database by each query the method
+   * runs, including the read queries such as the total of `selectPage`
+   */
+  onCounters?: (counters: MutationResult) => void;
+}
+
+/**
+ * Options used when streaming the records of a query
+ */
+export interface Neo4jStreamOptions extends Neo4jQueryOptions {
+  /**
+   * Number of records fetched from the database at a time (default: the
+   * fetch size of the driver).  Ignored when a session or transaction is
+   * provided.
+   */
+  fetchSize?: number;
+}
+
+/**
+ * Options used when creating a relationship with `join`
+ */
+export type Neo4jJoinOptions = Neo4jQueryOptions & JoinOptions;
+
+/**
+ * Options used when deleting or updating relationships
+ */
+export type Neo4jRelationshipOptions = Neo4jQueryOptions &
+  RelationshipEndpoints;
+
+/**
+ * Options used when running a bulk operation against Neo4j.  Each chunk
+ * runs in its own transaction unless a transaction is provided, or the
+ * operation is called inside `transaction()`.
+ */
+export type Neo4jBulkOptions = Neo4jQueryOptions & BulkOptions;
+
+/**
+ * Number of records written by each query of a bulk operation
+ */
+const DEFAULT_CHUNK_SIZE = 1000;
+
+/**
+ * Options used when running a transaction against Neo4j
+ */
+export type Neo4jTransactionOptions = Pick<Neo4jQueryOptions, 'bookmarks'>;
+
+/**
+ * Counts of the changes made to the database by a write query
+ */
+export interface MutationResult {
+  nodesCreated: number;
+  nodesDeleted: number;
+  relationshipsCreated: number;
+  relationshipsDeleted: number;
+  propertiesSet: number;
+  labelsAdded: number;
+  labelsRemoved: number;
+
+  /**
+   * Whether the query made any changes to the database
+   */
+  containsUpdates: boolean;
+}
+
+/**
+ * The value returned by a write method along with the changes made to the
+ * database by its queries
+ */
+export interface Mutation<T> {
+  result: T;
+
+  /**
+   * The changes made to the database, summed over the queries of the method
+   */
+  counters: MutationResult;
+}
+
+/**
+ * The records returned by a query along with the summary of its execution
+ */
+export interface ExecuteResult {
+  records: Neo4jRecord[];
+
+  /**
+   * The changes made to the database by the query
+   */
+  counters: MutationResult;
+
+  /**
+   * Milliseconds until the first record was available
+   */
+  resultAvailableAfter: number;
+
+  /**
+   * Milliseconds until all of the records were consumed
+   */
+  resultConsumedAfter: number;
+
+  /**
+   * Warnings and hints raised by the database while running the query
+   */
+  notifications: Notification[];
+}
+
+/**
+ * Options used when opening a session
+ */
+interface SessionOptions {
+  accessMode?: AccessMode;
+  bookmarks?: string[];
+  fetchSize?: number;
+}
+
+interface Connection {
+  driver: Driver;
+  config: ResolvedConnectionConfig;
+}
+
+/**
+ * A transaction opened by `transaction` or `readTransaction`, which the
+ * queries run inside its callback join
+ */
+interface TransactionFrame {
+  transaction: ManagedTransaction;
+  accessMode: AccessMode;
+
+  /**
+   * Error thrown by a nested transaction.  The outer transaction is rolled
+   * back with it, even when the callback catches the error.
+   */
+  failure?: unknown;
+}
+
+/**
+ * Neo4j database implementation backed by a registry of named connections
+ * This class provides methods to interact with a Neo4j database and ensures
+ * only one driver is created for each named connection across the application
+ */
+export class Neo4j extends Database<Session, ManagedTransaction> {
+  /**
+   * Registry of the connections, keyed by connection name
+   * @private
+   */
+  private static connections: Map<string, Connection> = new Map();
+
+  /**
+   * The transactions opened in the current async context, keyed by the
+   * connection and database they were opened against
+   * @private
+   */
+  private static transactions = new AsyncLocalStorage<
+    Map<string, TransactionFrame>
+  >();
+
+  /**
+   * Name of the connection this instance is bound to
+   */
+  readonly connection: string;
+
+  /**
+   * Name of the database this instance opens sessions against
+   */
+  private readonly database?: string;
+
+  /**
+   * Bookmark manager shared by the sessions of this instance
+   */
+  private readonly bookmarkManager?: BookmarkManager;
+
+  /**
+   * Policy used to retry idempotent queries
+   */
+  private readonly retryPolicy: RetryPolicy;
+
+  /**
+   * Whether typed errors are thrown instead of returning false
+   */
+  private readonly strict: boolean;
+
+  /**
+   * Converter applied to parameters and results
+   */
+  readonly converter: ValueConverter;
+
+  /**
+   * How nodes are identified by the CRUD methods
+   */
+  readonly idStrategy: IdStrategy;
+
+  /**
+   * Property holding the ID of the nodes
+   */
+  readonly idProperty: string;
+
+  /**
+   * Audit fields written to the nodes created or updated by the instance
+   */
+  readonly auditPolicy: AuditPolicy;
+
+  /**
+   * Soft-delete policies keyed by label
+   */
+  private readonly softDeletePolicies: Map<string, SoftDeletePolicy>;
+
+  /**
+   * Bookmarks of the last session closed by this instance
+   */
+  private lastBookmarks: string[] = [];
+
+  /**
+   * @param logger - Logger service instance
+   * @param options - The connection and database to bind the instance to
+   * @throws ConfigurationError if the retry, audit or soft-delete policy is invalid
+   * @throws InvalidIdentifierError if the ID property is invalid
+   * @private
+   */
+  constructor(
+    private readonly logger: Logger,
+    options: Neo4jOptions = {}
+  ) {
+    super();
+
+    this.connection = options.connection ?? DEFAULT_CONNECTION;
+    this.database = options.database;
+    this.bookmarkManager = options.bookmarkManager;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.strict = options.strict ?? false;
+    this.converter = options.converter ?? defaultConverter;
+    this.idStrategy = options.idStrategy ?? 'property';
+    this.idProperty = options.idProperty ?? 'id';
+    this.auditPolicy = resolveAuditPolicy(options.audit);
+    this.softDeletePolicies = resolveSoftDeletePolicies(options.softDelete);
+
+    escapeIdentifier(this.idProperty);
+  }
+
+  /**
+   * Gets the bookmarks of the last query or transaction run by this instance.
+   * Pass them to a later query to make sure it sees the writes, even when it
+   * is routed to a different member of the cluster.
+   * @returns The bookmarks of the last session closed by this instance
+   */
+  getLastBookmarks() {
+    return [...this.lastBookmarks];
+  }
+
+  /**
+   * Creates a query builder which writes the audit fields of this instance
+   * @param actor - Actor recorded in the `createdBy` and `updatedBy` audit fields
+   * @returns A new query builder
+   */
+  queryBuilder(actor?: string) {
+    return new Neo4jQueryBuilder({ audit: this.auditPolicy, actor });
+  }
+
+  /**
+   * Deletes a node with the specified ID.  Nodes of labels with soft delete
+   * enabled are marked as deleted instead of being removed.
+   * @template Key - The type of the node ID
+   * @param nodeLabel - The label of the node to delete
+   * @param id - The ID of the node to delete
+   * @param options - Query options
+   * @returns A promise that resolves to true if the node was deleted
+   * @throws NotFoundError in strict mode if the node does not exist
+   * @throws DatabaseError in strict mode if the query fails
+   */
+  async delete<Key = number>(
+    nodeLabel: string,
+    id: Key,
+    options: Neo4jQueryOptions = {}
+  ): Promise<boolean> {
+    const policy = this.getSoftDeletePolicy(nodeLabel);
+
+    if (!policy) {
+      return this.purge(nodeLabel, id, options);
+    }
+
+    try {
+      const [node] = await this.execute<QueryResult>(
+        `${this.buildSoftDeleteQuery(nodeLabel, policy, '$id')} RETURN n`,
+        { id, ...this.softDeleteParams(options.actor) },
+        options
+      ).then((result) => this.parseResponse(result));
+
+      if (this.strict && !node) {
+        throw new NotFoundError(nodeLabel, [id]);
+      }
+
+      return node !== undefined;
+    } catch (error: unknown) {
+      if (this.strict) {
+        throw error;
+      }
+
+      this.logger.error(error as Error, 'Unable to delete node with id');
+      return false;
+    }
+  }
+
+  /**
+   * Deletes many nodes by their IDs using `UNWIND`, one chunk of IDs per
+   * query.  Nodes of labels with soft delete enabled are marked as deleted
+   * instead of being removed.  The queries are idempotent, so they are
+   * retried when they fail with a transient error.
+   * @template Key - The type of the node IDs
+   * @param nodeLabel - The label of the nodes to delete
+   * @param ids - The IDs of the nodes to delete
+   * @param options - The chunk size, progress callback and query options
+   * @returns A promise that resolves to the IDs which were deleted and the chunks which failed
+   * @throws Error if the chunk size is not a positive integer
+   */
+  async deleteMany<Key = number>(
+    nodeLabel: string,
+    ids: Key[],
+    options: Neo4jBulkOptions = {}
+  ): Promise<BulkResult<Key, Key>> {
+    const { chunkSize, onProgress, ...queryOptions } = options;
+    const policy = this.getSoftDeletePolicy(nodeLabel);
+
+    const query = policy
+      ? `UNWIND $ids AS id ${this.buildSoftDeleteQuery(nodeLabel, policy, 'id')} RETURN id`
+      : `UNWIND $ids AS id MATCH (n:${escapeLabel(nodeLabel)}) WHERE ${this.idExpression('n')} = id DETACH DELETE n RETURN id`;
+
+    return this.runInChunks(
+      ids,
+      { chunkSize, onProgress },
+      async (chunkRows) => {
+        const { records } = await this.execute<QueryResult>(
+          query,
+          {
+            ids: chunkRows,
+            ...(policy ? this.softDeleteParams(options.actor) : {})
+          },
+          { idempotent: true, ...queryOptions }
+        );
+
+        return records.map(
+          (record) => decodeValue(record.get('id'), this.converter) as Key
+        );
+      }
+    );
+  }
+
+  /**
+   * Permanently deletes a node with the specified ID along with its
+   * relationships, even if soft delete is enabled for the label
+   * @template Key - The type of the node ID
+   * @param nodeLabel - The label of the node to delete
+   * @param id - The ID of the node to delete
+   * @param options - Query options
+   * @returns A promise that resolves to true if the node was deleted
+   * @throws NotFoundError in strict mode if the node does not exist
+   * @throws DatabaseError in strict mode if the query fails
+   */
+  async purge<Key = number>(
+    nodeLabel: string,
+    id: Key,
+    options: Neo4jQueryOptions = {}
+  ): Promise<boolean> {
+    try {
+      const { query, params } = new Neo4jQueryBuilder()
+        .select(nodeLabel, 'n')
+        .where((w) => w.eq(this.idReference('n'), id))
+        .detachDelete('n')
+        .build();
+
+      // DETACH DELETE does not return any records, so the counters
+      // are used to check if the node was deleted
+      const { counters } = await this.executeWithSummary(
+        query,
+        params,
+        options
+      );
+
+      if (this.strict && counters.nodesDeleted === 0) {
+        throw new NotFoundError(nodeLabel, [id]);
+      }
+
+      return counters.nodesDeleted > 0;
+    } catch (error: unknown) {
+      if (this.strict) {
+        throw error;
+      }
+
+      this.logger.error(error as Error, 'Unable to delete node with id');
+      return false;
+    }
+  }
+
+  /**
+   * Restores a soft-deleted node, along with the relationships which were
+   * hidden when it was deleted
+   * @template T - The type of the node properties
+   * @template Key - The type of the node ID
+   * @param nodeLabel - The label of the node to restore
+   * @param id - The ID of the node to restore
+   * @param options - Query options
+   * @returns A promise that resolves to the restored node, or undefined if
+   * there is no soft-deleted node with the ID
+   * @throws Error if soft delete is not enabled for the label
+   * @throws NotFoundError in strict mode if there is no soft-deleted node with the ID
+   */
+  async restore<T = unknown, Key = number>(
+    nodeLabel: string,
+    id: Key,
+    options: Neo4jQueryOptions = {}
+  ) {
+    const policy = this.getSoftDeletePolicy(nodeLabel);
+
+    if (!policy) {
+      throw new Error(
+        `Soft delete is not enabled for the "${nodeLabel}" label`
+      );
+    }
+
+    const property = escapeIdentifier(policy.property);
+
+    const query = [
+      `MATCH (n:${escapeLabel(nodeLabel)})`,
+      `WHERE ${this.idExpression('n')} = $id AND n.${property} IS NOT NULL`
+    ];
+
+    if (policy.relationships === 'hide') {
+      query.push(
+        `FOREACH (r IN [(n)-[rel]-() WHERE rel.${property} = n.${property} | rel] | REMOVE r.${property})`
+      );
+    }
+
+    const [node] = await this.execute<QueryResult>(
+      [...query, `REMOVE n.${property}`, 'SET n += $updated', 'RETURN n'].join(
+        ' '
+      ),
+      { id, updated: updatedFields(this.auditPolicy, options.actor) },
+      options
+    ).then((result) => this.parseResponse<T>(result));
+
+    if (this.strict && !node) {
+      throw new NotFoundError(nodeLabel, [id]);
+    }
+
+    return node;
+  }
+
+  /**
+   * Disconnects the connection this instance is bound to and removes it from
+   * the registry.  Other connections are not affected.
+   * @returns Promise that resolves when the connection is closed
+   */
+  async disconnect(): Promise<void> {
+    await Neo4j.close(this.connection);
+    this.logger.log('info', 'Disconnected from Neo4j', {
+      connection: this.connection
+    });
+  }
+
+  /**
+   * Inserts a new node into the database
+   * @template T - The type of data to insert
+   * @param nodeLabel - The label for the new node
+   * @param data - The data to insert
+   * @param options - Query options
+   * @returns A promise that resolves to the inserted node, including its ID
+   */
+  async insert<T extends object = object>(
+    nodeLabel: string,
+    data: object,
+    options: Neo4jQueryOptions = {}
+  ): Promise<Node<T>> {
+    return this.execute<QueryResult>(
+      `CREATE (n:${escapeLabel(nodeLabel)} $data) RETURN n`,
+      {
+        data: {
+          ...this.withGeneratedId(data),
+          ...createdFields(this.auditPolicy, options.actor)
+        }
+      },
+      options
+    ).then((result) => this.parseResponse<T>(result)[0]);
+  }
+
+  /**
+   * Inserts a new node like `insert`, and returns the changes made to the
+   * database along with the node
+   * @template T - The type of data to insert
+   * @param nodeLabel - The label for the new node
+   * @param data - The data to insert
+   * @param options - Query options
+   * @returns A promise that resolves to the inserted node and the counters
+   */
+  async insertWithCounters<T extends object = object>(
+    nodeLabel: string,
+    data: object,
+    options: Neo4jQueryOptions = {}
+  ): Promise<Mutation<Node<T>>> {
+    return this.withCounters(options, (countedOptions) =>
+      this.insert<T>(nodeLabel, data, countedOptions)
+    );
+  }
+
+  /**
+   * Inserts many nodes using `UNWIND`, one chunk of nodes per query
+   * @template T - The type of data to insert
+   * @param nodeLabel - The label for the new nodes
+   * @param rows - The data of each node
+   * @param options - The chunk size, progress callback and query options
+   * @returns A promise that resolves to the inserted nodes and the chunks which failed
+   * @throws Error if the chunk size is not a positive integer
+   */
+  async insertMany<T extends object = object>(
+    nodeLabel: string,
+    rows: object[],
+    options: Neo4jBulkOptions = {}
+  ): Promise<BulkResult<Node<T>, object>> {
+    const { chunkSize, onProgress, ...queryOptions } = options;
+    const query = `UNWIND $rows AS row CREATE (n:${escapeLabel(nodeLabel)}) SET n += row RETURN n`;
+
+    return this.runInChunks(
+      rows,
+      { chunkSize, onProgress },
+      async (chunkRows) => {
+        const created = createdFields(this.auditPolicy, options.actor);
+
+        const result = await this.execute<QueryResult>(
+          query,
+          {
+            rows: chunkRows.map((row) => ({
+              ...this.withGeneratedId(row),
+              ...created
+            }))
+          },
+          queryOptions
+        );
+
+        return this.parseResponse<T>(result);
+      }
+    );
+  }
+
+  /**
+   * Create a relationship between two nodes.  When the relationship
+   * already exists, its properties are updated.
+   * @param relationshipLabel - The label for the relationship
+   * @param source - The ID of the source node
+   * @param target - The ID of the target node
+   * @param direction - The direction of the relationship
+   * @param options - The properties of the relationship, the labels of the nodes and query options
+   * @returns A promise that resolves to true if the relationship was created successfully
+   * @throws NotFoundError in strict mode if either node does not exist
+   * @throws DatabaseError in strict mode if the query fails
+   */
+  async join(
+    relationshipLabel: string,
+    source: RecordId,
+    target: RecordId,
+    direction: RelationshipDirections,
+    options: Neo4jJoinOptions = {}
+  ): Promise<boolean> {
+    const {
+      sourceLabel,
+      targetLabel,
+      properties = {},
+      ...queryOptions
+    } = options;
+
+    try {
+      const query = [
+        `MATCH (${this.buildEndpoint('s', sourceLabel)}) WHERE ${this.idExpression('s')} = $source`,
+        `MATCH (${this.buildEndpoint('t', targetLabel)}) WHERE ${this.idExpression('t')} = $target`,
+        `MERGE ${this.buildRelationshipPattern(relationshipLabel, direction)}`
+      ];
+
+      if (Object.keys(properties).length > 0) {
+        query.push('SET r += $properties');
+      }
+
+      const result = await this.execute<QueryResult>(
+        [...query, 'RETURN r'].join(' '),
+        { source, target, properties },
+        queryOptions
+      );
+
+      if (this.strict && result.records.length === 0) {
+        throw new NotFoundError(undefined, [source, target]);
+      }
+
+      return result.records.length > 0;
+    } catch (error) {
+      if (this.strict) {
+        throw error;
+      }
+
+      this.logger.error(error as Error, 'Unable to join nodes');
+      return false;
+    }
+  }
+
+  /**
+   * Creates a relationship like `join`, and returns the changes made to the
+   * database along with whether the relationship was created
+   * @param relationshipLabel - The label for the relationship
+   * @param source - The ID of the source node
+   * @param target - The ID of the target node
+   * @param direction - The direction of the relationship
+   * @param options - The properties of the relationship, the labels of the nodes and query options
+   * @returns A promise that resolves to true if the relationship was created, and the counters
+   * @throws NotFoundError in strict mode if either node does not exist
+   * @throws DatabaseError in strict mode if the query fails
+   */
+  async joinWithCounters(
+    relationshipLabel: string,
+    source: RecordId,
+    target: RecordId,
+    direction: RelationshipDirections,
+    options: Neo4jJoinOptions = {}
+  ): Promise<Mutation<boolean>> {
+    return this.withCounters(options, (countedOptions) =>
+      this.join(relationshipLabel, source, target, direction, countedOptions)
+    );
+  }
+
+  /**
+   * Delete the relationships of a type between two nodes
+   * @param relationshipLabel - The label of the relationship
+   * @param source - The ID of the source node
+   * @param target - The ID of the target node
+   * @param direction - The direction of the relationship (default: 'from')
+   * @param options - The labels of the nodes and query options
+   * @returns A promise that resolves to true if a relationship was deleted
+   * @throws NotFoundError in strict mode if there is no relationship to delete
+   * @throws DatabaseError in strict mode if the query fails
+   */
+  async unjoin(
+    relationshipLabel: string,
+    source: RecordId,
+    target: RecordId,
+    direction: RelationshipDirections = 'from',
+    options: Neo4jRelationshipOptions = {}
+  ): Promise<boolean> {
+    const { sourceLabel, targetLabel, ...queryOptions } = options;
+
+    try {
+      const { counters } = await this.executeWithSummary(
+        [
+          `MATCH ${this.buildRelationshipPattern(relationshipLabel, direction, { sourceLabel, targetLabel })}`,
+          `WHERE ${this.idExpression('s')} = $source AND ${this.idExpression('t')} = $target`,
+          'DELETE r'
+        ].join(' '),
+        { source, target },
+        queryOptions
+      );
+
+      if (this.strict && counters.relationshipsDeleted === 0) {
+        throw new NotFoundError(
+          relationshipLabel,
+          [source, target],
+          'relationship'
+        );
+      }
+
+      return counters.relationshipsDeleted > 0;
+    } catch (error) {
+      if (this.strict) {
+        throw error;
+      }
+
+      this.logger.error(error as Error, 'Unable to unjoin nodes');
+      return false;
+    }
+  }
+
+  /**
+   * Update the properties of the relationships of a type between two nodes
+   * @template T - The type of the relationship properties
+   * @param relationshipLabel - The label of the relationship
+   * @param source - The ID of the source node
+   * @param target - The ID of the target node
+   * @param data - The properties to update
+   * @param direction - The direction of the relationship (default: 'from')
+   * @param options - The labels of the nodes and query options
+   * @returns A promise that resolves to the updated relationships
+   * @throws NotFoundError in strict mode if there is no relationship to update
+   */
+  async updateRelationship<T extends object = object>(
+    relationshipLabel: string,
+    source: RecordId,
+    target: RecordId,
+    data: object,
+    direction: RelationshipDirections = 'from',
+    options: Neo4jRelationshipOptions = {}
+  ): Promise<Relationship<T>[]> {
+    const { sourceLabel, targetLabel, ...queryOptions } = options;
+
+    const relationships = await this.execute<QueryResult>(
+      [
+        `MATCH ${this.buildRelationshipPattern(relationshipLabel, direction, { sourceLabel, targetLabel })}`,
+        `WHERE ${this.idExpression('s')} = $source AND ${this.idExpression('t')} = $target`,
+        'SET r += $data',
+        this.buildRelationshipReturn()
+      ].join(' '),
+      { source, target, data },
+      queryOptions
+    ).then((result) => this.parseRelationships<T>(result));
+
+    if (this.strict && relationships.length === 0) {
+      throw new NotFoundError(
+        relationshipLabel,
+        [source, target],
+        'relationship'
+      );
+    }
+
+    return relationships;
+  }
+
+  /**
+   * Select the relationships of a type, optionally filtered by their
+   * endpoints and properties.  Relationships hidden by a soft delete, and
+   * relationships of soft-deleted nodes, are left out unless
+   * `includeDeleted` is set.
+   * @template T - The type of the relationship properties
+   * @param relationshipLabel - The label of the relationships
+   * @param query - The endpoints and properties to filter by
+   * @param options - Query options, the query is routed as a read by default
+   * @returns A promise that resolves to the matching relationships
+   */
+  async selectRelationships<T extends object = object>(
+    relationshipLabel: string,
+    query: RelationshipQuery<T> = {},
+    options: Neo4jQueryOptions = {}
+  ): Promise<Relationship<T>[]> {
+    const { sourceLabel, targetLabel, direction = 'from' } = query;
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (query.source !== undefined) {
+      conditions.push(`${this.idExpression('s')} = $source`);
+      params.source = query.source;
+    }
+
+    if (query.target !== undefined) {
+      conditions.push(`${this.idExpression('t')} = $target`);
+      params.target = query.target;
+    }
+
+    Object.entries(query.where ?? {}).forEach(([property, value], index) => {
+      conditions.push(`r.${escapeIdentifier(property)} = $r_${index}`);
+      params[`r_${index}`] = value;
+    });
+
+    if (!query.includeDeleted) {
+      conditions.push(
+        ...this.buildSoftDeleteFilters('s', sourceLabel),
+        ...this.buildSoftDeleteFilters('t', targetLabel)
+      );
+    }
+
+    const cypher = [
+      `MATCH ${this.buildRelationshipPattern(relationshipLabel, direction, { sourceLabel, targetLabel })}`,
+      conditions.length > 0
+        ? `WHERE ${[...new Set(conditions)].join(' AND ')}`
+        : '',
+      this.buildRelationshipReturn()
+    ];
+
+    if (query.limit !== undefined) {
+      if (!Number.isInteger(query.limit) || query.limit < 0) {
+        throw new Error('limit must be a non-negative integer');
+      }
+
+      cypher.push('LIMIT $limit');
+      params.limit = int(query.limit);
+    }
+
+    return this.execute<QueryResult>(cypher.filter(Boolean).join(' '), params, {
+      accessMode: 'READ',
+      ...options
+    }).then((result) => this.parseRelationships<T>(result));
+  }
+
+  /**
+   * Selects nodes from the database based on a query
+   * @template T - The type of data to select
+   * @param table - The label of the nodes to select
+   * @param query - The query to filter, sort and page nodes
+   * @param options - Query options, the query is routed as a read by default
+   * @returns A promise that resolves to the selected data
+   */
+  async select<
+    T extends object = object,
+    Join extends JoinInterface = Record<never, RelationshipDirections>
+  >(
+    table: string,
+    query: QueryInterface<T, Join>,
+    options: Neo4jQueryOptions = {}
+  ): Promise<Selected<T, Join>[]> {
+    const { query: queryStr, params } = this.buildSelectQuery(
+      table,
+      query
+    ).build();
+
+    return this.execute<QueryResult>(queryStr, params, {
+      accessMode: 'READ',
+      ...options
+    }).then((result) => this.parseSelected<T, Join>(result, query.join));
+  }
+
+  /**
+   * Selects a page of nodes along with the total number of matching nodes.
+   * Results are ordered by the `orderBy` keys followed by the `id` property
+   * so that `nextCursor` can be used to request the following page.
+   * @template T - The type of data to select
+   * @param table - The label of the nodes to select
+   * @param query - The query to filter, sort and page nodes
+   * @param options - Query options, the queries are routed as reads by default
+   * @returns A promise that resolves to the page of nodes
+   * @throws Error if the limit is not a non-negative integer
+   */
+  async selectPage<
+    T extends object = object,
+    Join extends JoinInterface = Record<never, RelationshipDirections>
+  >(
+    table: string,
+    query: QueryInterface<T, Join> = {},
+    options: Neo4jQueryOptions = {}
+  ): Promise<Page<Selected<T, Join>>> {
+    if (
+      query.limit !== undefined &&
+      (!Number.isInteger(query.limit) || query.limit < 0)
+    ) {
+      throw new Error('limit must be a non-negative integer');
+    }
+
+    const readOptions: Neo4jQueryOptions = { accessMode: 'READ', ...options };
+
+    // The total is counted by wrapping the filter query in a subquery so
+    // that the matching nodes never leave the database
+    const countQuery = this.buildSelectQuery(table, {
+      where: query.where,
+      includeDeleted: query.includeDeleted
+    }).build();
+
+    const total = await this.execute<QueryResult>(
+      `CALL { ${countQuery.query} } RETURN count(n) AS total`,
+      countQuery.params,
+      readOptions
+    ).then((result) => Number(result.records[0]?.get('total') ?? 0));
+
+    // Request an extra node to determine if there is another page
+    const pageQuery = this.buildSelectQuery(table, {
+      ...query,
+      limit: query.limit === undefined ? undefined : query.limit + 1
+    }).build();
+
+    const result = await this.execute<QueryResult>(
+      pageQuery.query,
+      pageQuery.params,
+      readOptions
+    );
+    const items = this.parseSelected<T, Join>(result, query.join);
+
+    let nextCursor: string | null = null;
+
+    if (query.limit !== undefined && items.length > query.limit) {
+      items.splice(query.limit);
+
+      // The cursor is built from the values stored in the database rather
+      // than the decoded values, which may have been converted to strings.
+      // An empty page has no last node to continue from
+      if (query.limit > 0) {
+        const lastNode: Neo4jNode = result.records[query.limit - 1].get('n');
+        nextCursor = encodeCursor(
+          this.getSortKeys(query).map(([key]) => this.sortValue(lastNode, key))
+        );
+      }
+    }
+
+    return { items, total, nextCursor };
+  }
+
+  /**
+   * Selects nodes like `select`, but yields each node as it is received so
+   * that large exports do not have to hold every node in memory
+   * @template T - The type of data to select
+   * @template Join - The relationship types to load with the nodes
+   * @param table - The label of the nodes to select
+   * @param query - The query to filter, sort and page nodes
+   * @param options - Query and fetch options, the query is routed as a read by default
+   * @returns An async iterable of the selected nodes
+   */
+  async *selectStream<
+    T extends object = object,
+    Join extends JoinInterface = Record<never, RelationshipDirections>
+  >(
+    table: string,
+    query: QueryInterface<T, Join> = {},
+    options: Neo4jStreamOptions = {}
+  ): AsyncGenerator<Selected<T, Join>> {
+    const { query: queryStr, params } = this.buildSelectQuery(
+      table,
+      query
+    ).build();
+
+    const types = Object.keys(query.join ?? {});
+
+    for await (const record of this.streamRecords(queryStr, params, {
+      accessMode: 'READ',
+      ...options
+    })) {
+      yield this.parseSelectedRecord<T, Join>(record, types);
+    }
+  }
+
+  /**
+   * Select the nodes which can be reached from a node within a number of
+   * hops.  Each node is returned once, and the start node is left out.
+   * @template T - The type of the neighboring nodes
+   * @param id - The ID of the start node
+   * @param traversal - The relationship types, direction and depth to traverse
+   * @param options - Query options, the query is routed as a read by default
+   * @returns A promise that resolves to the neighboring nodes
+   * @throws Error if the depth is not a positive integer
+   */
+  async neighbors<T extends object = object>(
+    id: RecordId,
+    traversal: TraversalOptions = {},
+    options: Neo4jQueryOptions = {}
+  ): Promise<Node<T>[]> {
+    const pattern = this.buildTraversalPattern(traversal);
+
+    return this.execute<QueryResult>(
+      `MATCH ${pattern} WHERE ${this.idExpression('n')} = $id AND m <> n RETURN DISTINCT m`,
+      { id },
+      { accessMode: 'READ', ...options }
+    ).then((result) => this.parseResponse<T>(result));
+  }
+
+  /**
+   * Select the subgraph around a node, made of the nodes which can be
+   * reached within a number of hops and the relationships traversed to
+   * reach them.  The start node is included unless it does not exist.
+   * @param id - The ID of the start node
+   * @param traversal - The relationship types, direction and depth to traverse
+   * @param options - Query options, the query is routed as a read by default
+   * @returns A promise that resolves to the nodes and relationships
+   * @throws Error if the depth is not a positive integer
+   */
+  async expand(
+    id: RecordId,
+    traversal: TraversalOptions = {},
+    options: Neo4jQueryOptions = {}
+  ): Promise<Subgraph> {
+    const pattern = this.buildTraversalPattern(traversal);
+
+    const result = await this.execute<QueryResult>(
+      [
+        `MATCH (${this.buildEndpoint('n', traversal.label)}) WHERE ${this.idExpression('n')} = $id`,
+        `OPTIONAL MATCH p = ${pattern}`,
+        'RETURN n, p'
+      ].join(' '),
+      { id },
+      { accessMode: 'READ', ...options }
+    );
+
+    // The paths overlap, so the nodes and relationships are deduplicated
+    const nodes = new Map<string, Neo4jNode>();
+    const relationships = new Map<string, Neo4jRelationship>();
+
+    for (const record of result.records) {
+      const start: Neo4jNode = record.get('n');
+      const path: Path | null = record.get('p');
+
+      nodes.set(start.elementId, start);
+
+      for (const segment of path?.segments ?? []) {
+        nodes.set(segment.end.elementId, segment.end);
+        relationships.set(segment.relationship.elementId, segment.relationship);
+      }
+    }
+
+    return this.parseGraph([...nodes.values()], [...relationships.values()]);
+  }
+
+  /**
+   * Find the shortest path between two nodes
+   * @param source - The ID of the node the path starts from
+   * @param target - The ID of the node the path ends at
+   * @param traversal - The labels of the nodes, and the relationship types, direction and length of the path
+   * @param options - Query options, the query is routed as a read by default
+   * @returns A promise that resolves to the path, or null if the nodes are not connected
+   */
+  async shortestPath(
+    source: RecordId,
+    target: RecordId,
+    traversal: ShortestPathOptions = {},
+    options: Neo4jQueryOptions = {}
+  ): Promise<GraphPath | null> {
+    const [path] = await this.findShortestPaths(
+      'shortestPath',
+      source,
+      target,
+      traversal,
+      options
+    );
+
+    return path ?? null;
+  }
+
+  /**
+   * Find every path between two nodes which has the shortest length
+   * @param source - The ID of the node the paths start from
+   * @param target - The ID of the node the paths end at
+   * @param traversal - The labels of the nodes, and the relationship types, direction and length of the paths
+   * @param options - Query options, the query is routed as a read by default
+   * @returns A promise that resolves to the paths, empty if the nodes are not connected
+   */
+  async allShortestPaths(
+    source: RecordId,
+    target: RecordId,
+    traversal: ShortestPathOptions = {},
+    options: Neo4jQueryOptions = {}
+  ): Promise<GraphPath[]> {
+    return this.findShortestPaths(
+      'allShortestPaths',
+      source,
+      target,
+      traversal,
+      options
+    );
+  }
+
+  /**
+   * Execute a database transaction that can contain multiple operations.
+   * Every query run inside the callback joins the transaction, unless it
+   * is passed a session or another transaction.  A transaction started
+   * inside the callback reuses this one, and when it fails the whole
+   * transaction is rolled back.
+   * @template T - The return type of the transaction
+   * @param callback - The function to execute within the transaction
+   * @param options - Transaction options
+   * @returns A promise that resolves to the result of the transaction
+   */
+  async transaction<T>(
+    callback: (transaction: ManagedTransaction) => Promise<T>,
+    options: Neo4jTransactionOptions = {}
+  ) {
+    return this.runTransaction('WRITE', callback, options);
+  }
+
+  /**
+   * Execute a read-only database transaction, which can be routed to a
+   * read replica in a clustered deployment.  Queries run inside the
+   * callback join the transaction like they do for `transaction`.
+   * @template T - The return type of the transaction
+   * @param callback - The function to execute within the transaction
+   * @param options - Transaction options
+   * @returns A promise that resolves to the result of the transaction
+   */
+  async readTransaction<T>(
+    callback: (transaction: ManagedTransaction) => Promise<T>,
+    options: Neo4jTransactionOptions = {}
+  ) {
+    return this.runTransaction('READ', callback, options);
+  }
+
+  /**
+   * Runs a callback in the transaction already open in the current async
+   * context, or in a new transaction which the queries run inside the
+   * callback join
+   * @template T - The return type of the transaction
+   * @param accessMode - Whether the transaction reads or writes
+   * @param callback - The function to execute within the transaction
+   * @param options - Transaction options
+   * @returns A promise that resolves to the result of the transaction
+   * @throws Error if a write transaction is started inside a read transaction
+   * @private
+   */
+  private async runTransaction<T>(
+    accessMode: AccessMode,
+    callback: (transaction: ManagedTransaction) => Promise<T>,
+    options: Neo4jTransactionOptions
+  ) {
+    const outer = this.currentTransaction();
+
+    if (outer) {
+      if (outer.accessMode === 'READ' && accessMode === 'WRITE') {
+        throw new Error(
+          'Cannot start a write transaction inside a read transaction'
+        );
+      }
+
+      // Neo4j does not support savepoints, so a nested transaction which
+      // fails rolls back the transaction it is part of
+      try {
+        return await callback(outer.transaction);
+      } catch (error) {
+        if (outer.failure === undefined) {
+          outer.failure = error;
+        }
+
+        throw error;
+      }
+    }
+
+    const session: Session = await this.getSession({
+      accessMode,
+      bookmarks: options.bookmarks
+    });
+
+    // The driver runs the work again when it fails with a transient
+    // error, so each attempt gets its own frame
+    const work = async (transaction: ManagedTransaction) => {
+      const frame: TransactionFrame = { transaction, accessMode };
+      const frames = new Map(Neo4j.transactions.getStore());
+      frames.set(this.transactionScope(), frame);
+
+      const result = await Neo4j.transactions.run(frames, () =>
+        callback(transaction)
+      );
+
+      if (frame.failure !== undefined) {
+        throw frame.failure;
+      }
+
+      return result;
+    };
+
+    try {
+      return await (accessMode === 'READ'
+        ? session.executeRead(work)
+        : session.executeWrite(work));
+    } finally {
+      await this.closeSession(session);
+    }
+  }
+
+  /**
+   * Gets the transaction open in the current async context for the
+   * connection and database of this instance
+   * @returns The transaction frame, or undefined outside of a transaction
+   * @private
+   */
+  private currentTransaction() {
+    return Neo4j.transactions.getStore()?.get(this.transactionScope());
+  }
+
+  /**
+   * Gets the transaction a query should run in: the transaction passed in
+   * the options, or the transaction open in the current async context
+   * unless a session is passed
+   * @param options - Query options
+   * @returns The transaction, or undefined when the query opens its own
+   * @private
+   */
+  private resolveTransaction(options: Neo4jQueryOptions) {
+    if (options.transaction || options.session) {
+      return options.transaction;
+    }
+
+    return this.currentTransaction()?.transaction;
+  }
+
+  /**
+   * Gets the key of the transactions of this instance, so that instances
+   * bound to the same connection and database share their transactions
+   * @returns The connection and database of this instance
+   * @private
+   */
+  private transactionScope() {
+    return `${this.connection}/${this.database ?? ''}`;
+  }
+
+  /**
+   * Updates an existing node in the database
+   * @template T - The type of data to update
+   * @template Key - The type of the node ID
+   * @param nodeLabel - The label of the node to update
+   * @param id - The ID of the node to update
+   * @param data - The data to update
+   * @param options - Query options
+   * @returns A promise that resolves to the updated data
+   * @throws NotFoundError in strict mode if the node does not exist
+   */
+  async update<T = unknown, Key = number>(
+    nodeLabel: string,
+    id: Key,
+    data: object,
+    options: Neo4jQueryOptions = {}
+  ) {
+    const [node] = await this.execute<QueryResult>(
+      `MATCH (n:${escapeLabel(nodeLabel)}) WHERE ${this.idExpression('n')} = $id SET n += $data RETURN n`,
+      {
+        id,
+        data: { ...data, ...updatedFields(this.auditPolicy, options.actor) }
+      },
+      options
+    ).then((result) => this.parseResponse<T>(result));
+
+    if (this.strict && !node) {
+      throw new NotFoundError(nodeLabel, [id]);
+    }
+
+    return node;
+  }
+
+  /**
+   * Updates an existing node like `update`, and returns the changes made
+   * to the database along with the node
+   * @template T - The type of data to update
+   * @template Key - The type of the node ID
+   * @param nodeLabel - The label of the node to update
+   * @param id - The ID of the node to update
+   * @param data - The data to update
+   * @param options - Query options
+   * @returns A promise that resolves to the updated node and the counters
+   * @throws NotFoundError in strict mode if the node does not exist
+   */
+  async updateWithCounters<T = unknown, Key = number>(
+    nodeLabel: string,
+    id: Key,
+    data: object,
+    options: Neo4jQueryOptions = {}
+  ): Promise<Mutation<Node<T> | undefined>> {
+    return this.withCounters(options, (countedOptions) =>
+      this.update<T, Key>(nodeLabel, id, data, countedOptions)
+    );
+  }
+
+  /**
+   * Updates an existing node or creates it if it doesn't exist
+   * @template T - The type of data to upsert
+   * @param nodeLabel - The label of the node to upsert
+   * @param id - The ID of the node to upsert
+   * @param data - The data to upsert
+   * @param options - Query options
+   * @returns A promise that resolves to an array of the upserted nodes
+   * @throws Error with the 'elementId' strategy, as element IDs are assigned by the database
+   */
+  async upsert<T = unknown>(
+    nodeLabel: string,
+    id: RecordId,
+    data: object,
+    options: Neo4jQueryOptions = {}
+  ) {
+    if (this.idStrategy === 'elementId') {
+      throw new Error(
+        'upsert() is not supported by the elementId strategy, as element IDs are assigned by the database'
+      );
+    }
+
+    const now = new Date();
+
+    return this.execute<QueryResult>(
+      [
+        `MERGE (n:${escapeLabel(nodeLabel)} {${escapeIdentifier(this.idProperty)}: $id})`,
+        'ON CREATE SET n += $data, n += $created',
+        'ON MATCH SET n += $data, n += $updated',
+        'RETURN n'
+      ].join(' '),
+      {
+        id,
+        data,
+        created: createdFields(this.auditPolicy, options.actor, now),
+        updated: updatedFields(this.auditPolicy, options.actor, now)
+      },
+      options
+    ).then((result) => this.parseResponse<T>(result)[0]);
+  }
+
+  /**
+   * Upserts a node like `upsert`, and returns the changes made to the
+   * database along with the node
+   * @template T - The type of data to upsert
+   * @param nodeLabel - The label of the node to upsert
+   * @param id - The ID of the node to upsert
+   * @param data - The data to upsert
+   * @param options - Query options
+   * @returns A promise that resolves to the upserted node and the counters
+   * @throws Error with the 'elementId' strategy, as element IDs are assigned by the database
+   */
+  async upsertWithCounters<T = unknown>(
+    nodeLabel: string,
+    id: RecordId,
+    data: object,
+    options: Neo4jQueryOptions = {}
+  ): Promise<Mutation<Node<T> | undefined>> {
+    return this.withCounters(options, (countedOptions) =>
+      this.upsert<T>(nodeLabel, id, data, countedOptions)
+    );
+  }
+
+  /**
+   * Inserts or updates many nodes using `UNWIND`, one chunk of nodes per
+   * query.  Each row must contain the ID property, which the nodes are
+   * merged on.  The queries are idempotent, so they are retried when they
+   * fail with a transient error.
+   * @template T - The type of data to upsert
+   * @param nodeLabel - The label of the nodes to upsert
+   * @param rows - The data of each node, including its ID
+   * @param options - The chunk size, progress callback and query options
+   * @returns A promise that resolves to the upserted nodes and the chunks which failed
+   * @throws Error with the 'elementId' strategy, as element IDs are assigned by the database
+   * @throws Error if a row does not contain the ID property
+   */
+  async upsertMany<T = unknown>(
+    nodeLabel: string,
+    rows: object[],
+    options: Neo4jBulkOptions = {}
+  ): Promise<BulkResult<T, object>> {
+    if (this.idStrategy === 'elementId') {
+      throw new Error(
+        'upsertMany() is not supported by the elementId strategy, as element IDs are assigned by the database'
+      );
+    }
+
+    if (rows.some((row) => !(this.idProperty in row))) {
+      throw new Error(
+        `Every row passed to upsertMany() must contain the "${this.idProperty}" property`
+      );
+    }
+
+    const { chunkSize, onProgress, ...queryOptions } = options;
+    const idProperty = escapeIdentifier(this.idProperty);
+    const query = [
+      'UNWIND $rows AS row',
+      `MERGE (n:${escapeLabel(nodeLabel)} {${idProperty}: row.${idProperty}})`,
+      'ON CREATE SET n += row, n += $created',
+      'ON MATCH SET n += row, n += $updated',
+      'RETURN n'
+    ].join(' ');
+
+    return this.runInChunks(
+      rows,
+      { chunkSize, onProgress },
+      async (chunkRows) => {
+        const now = new Date();
+
+        const result = await this.execute<QueryResult>(
+          query,
+          {
+            rows: chunkRows,
+            created: createdFields(this.auditPolicy, options.actor, now),
+            updated: updatedFields(this.auditPolicy, options.actor, now)
+          },
+          { idempotent: true, ...queryOptions }
+        );
+
+        return this.parseResponse<T>(result);
+      }
+    );
+  }
+
+  /**
+   * Executes a Cypher query against the Neo4j database.  Reads and queries
+   * marked as idempotent are retried with backoff when they fail with a
+   * transient error.
+   * @template T - The type of data being returned by the query
+   * @param query - The Cypher query to execute
+   * @param params - The parameters to use in the query
+   * @param options - Query options
+   * @returns A Promise resolving to the query result
+   * @throws DatabaseError in strict mode if the query fails
+   */
+  async execute<T = QueryResult>(
+    query: string,
+    params: Record<string, unknown> = {},
+    options: Neo4jQueryOptions = {}
+  ): Promise<T> {
+    // Convert JavaScript dates and bigints to their Neo4j types
+    const encodedParams = encodeValue(params, this.converter) as Record<
+      string,
+      unknown
+    >;
+
+    let result: T;
+
+    try {
+      result = await this.executeQuery<T>(query, encodedParams, options);
+    } catch (error) {
+      throw this.strict ? mapNeo4jError(error) : error;
+    }
+
+    const summary = (result as QueryResult | undefined)?.summary;
+
+    if (options.onCounters && summary) {
+      options.onCounters(this.toMutationResult(summary));
+    }
+
+    return result;
+  }
+
+  /**
+   * Runs a write method and sums the changes made to the database by each
+   * of its queries.  The `onCounters` option of the caller is still called
+   * for each query.
+   * @param options - The options of the write method
+   * @param write - Runs the write method with the options which count the changes
+   * @returns The value returned by the write method and the counters
+   * @private
+   */
+  private async withCounters<R, O extends Neo4jQueryOptions>(
+    options: O,
+    write: (options: O) => Promise<R>
+  ): Promise<Mutation<R>> {
+    const counters: MutationResult = {
+      nodesCreated: 0,
+      nodesDeleted: 0,
+      relationshipsCreated: 0,
+      relationshipsDeleted: 0,
+      propertiesSet: 0,
+      labelsAdded: 0,
+      labelsRemoved: 0,
+      containsUpdates: false
+    };
+
+    const result = await write({
+      ...options,
+      onCounters: (queryCounters) => {
+        counters.nodesCreated += queryCounters.nodesCreated;
+        counters.nodesDeleted += queryCounters.nodesDeleted;
+        counters.relationshipsCreated += queryCounters.relationshipsCreated;
+        counters.relationshipsDeleted += queryCounters.relationshipsDeleted;
+        counters.propertiesSet += queryCounters.propertiesSet;
+        counters.labelsAdded += queryCounters.labelsAdded;
+        counters.labelsRemoved += queryCounters.labelsRemoved;
+        counters.containsUpdates ||= queryCounters.containsUpdates;
+
+        options.onCounters?.(queryCounters);
+      }
+    });
+
+    return { result, counters };
+  }
+
+  /**
+   * Reads the changes made to the database from the summary of a query
+   * @param summary - The summary of the query
+   * @returns The counts of the changes
+   * @private
+   */
+  private toMutationResult(summary: ResultSummary): MutationResult {
+    const stats = summary.counters.updates();
+
+    return {
+      nodesCreated: stats.nodesCreated,
+      nodesDeleted: stats.nodesDeleted,
+      relationshipsCreated: stats.relationshipsCreated,
+      relationshipsDeleted: stats.relationshipsDeleted,
+      propertiesSet: stats.propertiesSet,
+      labelsAdded: stats.labelsAdded,
+      labelsRemoved: stats.labelsRemoved,
+      containsUpdates: summary.counters.containsUpdates()
+    };
+  }
+
+  /**
+   * Executes a Cypher query in the transaction or session passed in the
+   * options, or in a new session with retries
+   * @template T - The type of data being returned by the query
+   * @param query - The Cypher query to execute
+   * @param params - The parameters to use in the query
+   * @param options - Query options
+   * @returns A Promise resolving to the query result
+   * @private
+   */
+  private async executeQuery<T>(
+    query: string,
+    params: Record<string, unknown>,
+    options: Neo4jQueryOptions
+  ): Promise<T> {
+    // If passed a managed transaction, or running inside one, then we can
+    // simply use it. We do not need to try/catch because the managed
+    // transaction comes from a wrapper function that handles the transaction
+    const transaction = this.resolveTransaction(options);
+
+    if (transaction) {
+      return transaction.run(query, params) as unknown as T;
+    }
+
+    // A session passed in the options is closed after the first attempt,
+    // so only queries which open their own session can be retried
+    const idempotent = options.idempotent ?? options.accessMode === 'READ';
+    if (options.session || !idempotent) {
+      return this.runInSession<T>(query, params, options);
+    }
+
+    return withRetry(
+      () => this.runInSession<T>(query, params, options),
+      this.retryPolicy,
+      (error, attempt, delay) =>
+        this.logger.warn('Retrying Neo4j query after a transient error', {
+          attempt,
+          delay,
+          code: (error as Neo4jError).code,
+          message: (error as Error).message
+        })
+    );
+  }
+
+  /**
+   * Runs a query in the transaction or session passed in the options, or
+   * in a new session, and yields its records as they are received.  The
+   * session is closed when the iteration ends, fails or is stopped early.
+   * @param query - The Cypher query to execute
+   * @param params - The parameters to use in the query
+   * @param options - Query and fetch options
+   * @returns An async iterable of the records returned by the driver
+   * @private
+   */
+  private async *streamRecords(
+    query: string,
+    params: Record<string, unknown>,
+    options: Neo4jStreamOptions
+  ): AsyncGenerator<Neo4jRecord> {
+    const encodedParams = encodeValue(params, this.converter) as Record<
+      string,
+      unknown
+    >;
+
+    const transaction = this.resolveTransaction(options);
+    const session = transaction
+      ? undefined
+      : (options.session ??
+        (await this.getSession({
+          accessMode: options.accessMode,
+          bookmarks: options.bookmarks,
+          fetchSize: options.fetchSize
+        })));
+
+    try {
+      // Iterating the result pulls the records from the database as they
+      // are consumed, rather than buffering the whole result
+      const result = (transaction ?? (session as Session)).run(
+        query,
+        encodedParams
+      );
+
+      for await (const record of result) {
+        yield record;
+      }
+    } catch (error) {
+      throw this.strict ? mapNeo4jError(error) : error;
+    } finally {
+      if (session) {
+        await this.closeSession(session);
+      }
+    }
+  }
+
+  /**
+   * Runs a query in the session passed in the options or in a new session
+   * @template T - The type of data being returned by the query
+   * @param query - The Cypher query to execute
+   * @param params - The parameters to use in the query
+   * @param options - Query options
+   * @returns A Promise resolving to the query result
+   * @private
+   */
+  private async runInSession<T>(
+    query: string,
+    params: Record<string, unknown>,
+    options: Neo4jQueryOptions
+  ): Promise<T> {
+    // Check if the session is passed in the options or we need to
+    // get a new session
+    const session: Session =
+      options.session ??
+      (await this.getSession({
+        accessMode: options.accessMode,
+        bookmarks: options.bookmarks
+      }));
+
+    try {
+      // Reads are routed to a read replica by the access mode of the
+      // session.  The query runs outside of a managed transaction, which
+      // the driver would retry on its own without logging the retries.
+      const result = await session.run(query, params);
+
+      return result as unknown as T;
+    } finally {
+      await this.closeSession(session);
+    }
+  }
+
+  /**
+   * Executes a Cypher query and returns the records along with the changes
+   * made to the database, the timings and the notifications of the query
+   * @param query - The Cypher query to execute
+   * @param params - The parameters to use in the query
+   * @param options - Query options
+   * @returns A Promise resolving to the records and summary of the query
+   * @throws DatabaseError in strict mode if the query fails
+   */
+  async executeWithSummary(
+    query: string,
+    params: Record<string, unknown> = {},
+    options: Neo4jQueryOptions = {}
+  ): Promise<ExecuteResult> {
+    const { records, summary } = await this.execute<QueryResult>(
+      query,
+      params,
+      options
+    );
+
+    return {
+      records,
+      counters: this.toMutationResult(summary),
+      resultAvailableAfter: summary.resultAvailableAfter.toNumber(),
+      resultConsumedAfter: summary.resultConsumedAfter.toNumber(),
+      notifications: summary.notifications
+    };
+  }
+
+  /**
+   * Executes a Cypher query and yields the decoded records as they are
+   * received, so that the whole result never has to be held in memory.
+   * Records are fetched in batches of `fetchSize`, and fetching pauses
+   * until the fetched records have been consumed.  Streamed queries are
+   * not retried.
+   * @template Row - The type of the decoded records
+   * @param query - The Cypher query to execute
+   * @param params - The parameters to use in the query
+   * @param options - Query and fetch options
+   * @returns An async iterable of the records keyed by column
+   * @throws DatabaseError in strict mode if the query fails
+   */
+  async *executeStream<Row = Record<string, unknown>>(
+    query: string,
+    params: Record<string, unknown> = {},
+    options: Neo4jStreamOptions = {}
+  ): AsyncGenerator<Row> {
+    for await (const record of this.streamRecords(query, params, options)) {
+      yield decodeRecord<Row>(record, this.converter);
+    }
+  }
+
+  /**
+   * Builds the query which marks the node `n` with an ID as deleted
+   * @param nodeLabel - The label of the node to delete
+   * @param policy - The soft-delete policy of the label
+   * @param id - The Cypher expression holding the ID of the node
+   * @returns The query, without a RETURN clause
+   * @private
+   */
+  private buildSoftDeleteQuery(
+    nodeLabel: string,
+    policy: SoftDeletePolicy,
+    id: string
+  ) {
+    const property = escapeIdentifier(policy.property);
+
+    const query = [
+      `MATCH (n:${escapeLabel(nodeLabel)})`,
+      `WHERE ${this.idExpression('n')} = ${id} AND n.${property} IS NULL`,
+      `SET n.${property} = $deletedAt, n += $updated`
+    ];
+
+    // Relationships which were already hidden keep their own deletion
+    // time, so that they are only restored along with the node that hid them
+    if (policy.relationships === 'detach') {
+      query.push('FOREACH (r IN [(n)-[rel]-() | rel] | DELETE r)');
+    } else if (policy.relationships === 'hide') {
+      query.push(
+        `FOREACH (r IN [(n)-[rel]-() WHERE rel.${property} IS NULL | rel] | SET r.${property} = $deletedAt)`
+      );
+    }
+
+    return query.join(' ');
+  }
+
+  /**
+   * Gets the parameters of the soft-delete query
+   * @param actor - The actor deleting the node
+   * @returns The deletion time and the updated audit fields
+   * @private
+   */
+  private softDeleteParams(actor?: string) {
+    const now = new Date();
+
+    return {
+      deletedAt: formatTimestamp(now, this.auditPolicy.timestamps),
+      updated: updatedFields(this.auditPolicy, actor, now)
+    };
+  }
+
+  /**
+   * Adds an ID to the data of a new node when the ID strategy generates
+   * IDs and the data does not already contain one
+   * @param data - The data of the node
+   * @returns The data including the ID
+   * @private
+   */
+  private withGeneratedId(data: object) {
+    const id = generateId(this.idStrategy);
+
+    return id === undefined || this.idProperty in data
+      ? data
+      : { ...data, [this.idProperty]: id };
+  }
+
+  /**
+   * Runs a bulk operation one chunk at a time.  Failed chunks are logged
+   * and reported rather than stopping the operation.
+   * @template Row - The type of the input records
+   * @template T - The type of the records returned by each chunk
+   * @param rows - The input records
+   * @param options - The chunk size and progress callback
+   * @param write - Writes a chunk of records in its own transaction
+   * @returns The records returned by the chunks and the chunks which failed
+   * @throws Error if the chunk size is not a positive integer
+   * @private
+   */
+  private async runInChunks<Row, T>(
+    rows: Row[],
+    { chunkSize = DEFAULT_CHUNK_SIZE, onProgress }: BulkOptions,
+    write: (rows: Row[]) => Promise<T[]>
+  ): Promise<BulkResult<T, Row>> {
+    const chunks = chunk(rows, chunkSize);
+    const result: BulkResult<T, Row> = {
+      results: [],
+      succeeded: 0,
+      failed: 0,
+      errors: []
+    };
+
+    for (const [index, chunkRows] of chunks.entries()) {
+      try {
+        result.results.push(...(await write(chunkRows)));
+        result.succeeded += chunkRows.length;
+      } catch (error) {
+        this.logger.error(error as Error, 'Unable to write chunk', {
+          chunk: index
+        });
+
+        result.failed += chunkRows.length;
+        result.errors.push({
+          chunk: index,
+          offset: index * chunkSize,
+          rows: chunkRows,
+          error: error as Error
+        });
+      }
+
+      onProgress?.({
+        chunk: index,
+        chunks: chunks.length,
+        processed: result.succeeded + result.failed,
+        failed: result.failed,
+        total: rows.length
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Builds the query used to select nodes, applying the filters,
+   * sort order, cursor and paging from the query interface
+   * @param table - The label of the nodes to select
+   * @param query - The query to filter, sort and page nodes
+   * @returns The query builder for the select query
+   * @private
+   */
+  protected buildSelectQuery<T>(table: string, query: QueryInterface<T>) {
+    // The `id` filter refers to the node ID, so it can only be matched as
+    // a property when the default ID property is used
+    const { id, ...where } = (query?.where ?? {}) as Record<string, unknown>;
+    const isIdProperty =
+      this.idStrategy !== 'elementId' && this.idProperty === 'id';
+
+    const builder = new Neo4jQueryBuilder().select(
+      table,
+      'n',
+      isIdProperty ? query?.where : where
+    );
+
+    if (!isIdProperty && id !== undefined) {
+      builder.where((w) => w.eq(this.idReference('n'), id));
+    }
+
+    const softDelete = this.getSoftDeletePolicy(table);
+
+    if (softDelete && !query?.includeDeleted) {
+      builder.where((w) => w.isNull(`n.${softDelete.property}`));
+    }
+
+    const isPaged =
+      query?.orderBy !== undefined ||
+      query?.offset !== undefined ||
+      query?.limit !== undefined ||
+      query?.cursor !== undefined;
+
+    if (!isPaged) {
+      return this.joinRelated(builder, query?.join, query?.includeDeleted);
+    }
+
+    const sortKeys = this.getSortKeys(query);
+
+    // Keyset pagination - only return nodes which sort after the cursor:
+    //   (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+    if (query.cursor) {
+      const values = decodeCursor(query.cursor, sortKeys.length);
+
+      builder.where((w) =>
+        w.or(
+          ...sortKeys.map(([key, direction], index) =>
+            w.and(
+              ...sortKeys
+                .slice(0, index)
+                .map(([previousKey], previousIndex) =>
+                  w.eq(this.sortReference(previousKey), values[previousIndex])
+                ),
+              direction === 'ASC'
+                ? w.gt(this.sortReference(key), values[index])
+                : w.lt(this.sortReference(key), values[index])
+            )
+          )
+        )
+      );
+    }
+
+    // The order and paging apply to the final RETURN, so they follow the
+    // WITH clause of the joined relationships where \`n\` is still in scope
+    const joined = this.joinRelated(builder, query.join, query.includeDeleted);
+
+    for (const [key, direction] of sortKeys) {
+      joined.orderBy(this.sortReference(key), direction);
+    }
+
+    if (query.offset !== undefined) {
+      joined.skip(query.offset);
+    }
+
+    if (query.limit !== undefined) {
+      joined.limit(query.limit);
+    }
 
-export type Node<T> = T & { labels: string[]; id: number };
+    return joined;
+  }
 
-/**
- * Neo4j database implementation with singleton pattern
- * This class provides methods to interact with a Neo4j database
- * and ensures only one connection is created across the application
- */
-export class Neo4j extends Database<Session, ManagedTransaction> {
   /**
-   * Singleton instance of the Neo4j class
+   * Loads the related nodes of the selected nodes in the same query.  Each
+   * relationship type is matched optionally and its nodes are collected
+   * into a list, so that nodes without related nodes are still returned.
+   * @param builder - The query builder selecting the nodes as `n`
+   * @param join - The relationship types to load, with their direction
+   * @param includeDeleted - Whether to load the relationships hidden by soft delete
+   * @returns The query builder returning `n` and a list per relationship type
    * @private
    */
-  private static instance: Driver | null = null;
+  private joinRelated(
+    builder: Neo4jQueryBuilder<'n'>,
+    join: JoinInterface = {},
+    includeDeleted = false
+  ) {
+    const types = Object.entries(join);
+
+    if (types.length === 0) {
+      return builder;
+    }
+
+    // The related nodes can have any label, so the nodes deleted and the
+    // relationships hidden by every policy are left out
+    const policies = includeDeleted
+      ? []
+      : [...this.softDeletePolicies.values()];
+    const deletedProperties = [
+      ...new Set(policies.map((policy) => policy.property))
+    ];
+    const hiddenProperties = [
+      ...new Set(
+        policies
+          .filter((policy) => policy.relationships === 'hide')
+          .map((policy) => policy.property)
+      )
+    ];
+
+    // The related nodes use generated variables as the relationship types
+    // do not have to be valid variable names
+    const joined = types.reduce<Neo4jQueryBuilder<string>>(
+      (query, [type, direction], index) => {
+        query.join('n', { variable: `j${index}` }, direction, {
+          label: type,
+          variable: `r${index}`,
+          optional: true
+        });
+
+        if (deletedProperties.length > 0) {
+          query.where((w) =>
+            w.and(
+              ...hiddenProperties.map((property) =>
+                w.isNull(`r${index}.${property}`)
+              ),
+              ...deletedProperties.map((property) =>
+                w.isNull(`j${index}.${property}`)
+              )
+            )
+          );
+        }
+
+        return query;
+      },
+      builder
+    );
+
+    // DISTINCT removes the duplicates produced by matching several types
+    return joined.with((aggregate) =>
+      Object.fromEntries([
+        ['n', 'n'],
+        ...types.map((_, index) => [
+          `j${index}`,
+          aggregate.collect(`j${index}`, { distinct: true })
+        ])
+      ])
+    );
+  }
 
   /**
-   * @param logger - Logger service instance
+   * Gets the sort keys for a query.  The node ID is always included
+   * as the final key so that nodes have a stable order for pagination
+   * @param query - The query containing the sort order
+   * @returns A list of property and direction pairs
    * @private
    */
-  constructor(private readonly logger: Logger) {
-    super();
+  protected getSortKeys<T>(query: QueryInterface<T>) {
+    const sortKeys = Object.entries(query.orderBy ?? {}) as Array<
+      [string, SortDirection]
+    >;
+
+    if (!sortKeys.some(([key]) => key === 'id')) {
+      sortKeys.push(['id', 'ASC']);
+    }
+
+    return sortKeys;
   }
 
   /**
-   * Deletes a node with the specified ID
-   * @template Key - The type of the node ID
-   * @param nodeLabel - The label of the node to delete
-   * @param id - The ID of the node to delete
-   * @param options - Query options
-   * @returns A promise that resolves to true if the node was deleted successfully
+   * Gets the value of a sort key of a node, as stored in the database
+   * @param node - The node returned by the driver
+   * @param key - The sort key
+   * @returns The value the sort key refers to
+   * @private
    */
-  async delete<Key = number>(
-    nodeLabel: string,
-    id: Key,
-    options = {}
-  ): Promise<boolean> {
-    try {
-      const result = await this.execute<QueryResult>(
-        `MATCH (n:${nodeLabel}) WHERE n.id = $id DETACH DELETE n`,
-        { id },
-        options
-      );
-      return result.records.length > 0;
-    } catch (error: unknown) {
-      this.logger.error(error as Error, 'Unable to delete node with id');
-      return false;
+  private sortValue(node: Neo4jNode, key: string) {
+    if (key === 'id' && this.idStrategy === 'elementId') {
+      return node.elementId;
     }
+
+    return node.properties[key === 'id' ? this.idProperty : key];
   }
 
   /**
-   * Disconnects from the Neo4j database and clears the singleton instance
-   * @returns Promise that resolves when the connection is closed
+   * Gets the query builder reference for a sort key, where the `id`
+   * key refers to the node ID
+   * @param key - The sort key
+   * @returns The reference to sort by
+   * @private
    */
-  async disconnect(): Promise<void> {
-    const driver = await Neo4j.getInstance();
-    if (driver) {
-      await driver.close();
-      this.logger.log('info', 'Disconnected from Neo4j');
+  private sortReference(key: string): Reference<'n'> {
+    return key === 'id' ? this.idReference('n') : `n.${key}`;
+  }
 
-      // Clear the singleton instance when disconnecting
-      Neo4j.instance = null;
-    }
+  /**
+   * Gets the query builder reference for the ID of a node variable
+   * @param variable - The node variable
+   * @returns `elementId(n)` or the reference to the ID property
+   * @private
+   */
+  private idReference<Variable extends string>(
+    variable: Variable
+  ): Reference<Variable> {
+    return this.idStrategy === 'elementId'
+      ? `elementId(${variable})`
+      : `${variable}.${this.idProperty}`;
   }
 
   /**
-   * Inserts a new node into the database
-   * @template T - The type of data to insert
-   * @param nodeLabel - The label for the new node
-   * @param data - The data to insert
-   * @param options - Query options
-   * @returns A promise that resolves to the inserted data
+   * Builds the variable length pattern from the start node `n` to the
+   * nodes `m` which can be reached from it
+   * @param traversal - The relationship types, direction and depth to traverse
+   * @returns The traversal pattern
+   * @throws Error if the depth is not a positive integer
+   * @private
    */
-  async insert<T extends object = object>(
-    nodeLabel: string,
-    data: object,
-    options = {}
-  ): Promise<T> {
-    return this.execute<QueryResult>(
-      `CREATE (n:${nodeLabel} $data) RETURN n`,
+  private buildTraversalPattern({
+    label,
+    types = [],
+    direction = 'none',
+    depth = 1
+  }: TraversalOptions) {
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new Error('depth must be a positive integer');
+    }
+
+    return new Neo4jQueryBuilder<'n' | 'm'>().buildRelationshipReference(
+      { variable: 'n', label },
+      { variable: 'm' },
+      direction,
       {
-        data,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      },
-      options
-    ).then((result) => result.records[0].get('n').properties as T);
+        variable: 'r',
+        label: types.join('|'),
+        minHops: 1,
+        maxHops: depth
+      }
+    );
   }
 
   /**
-   * Create a relationship between two nodes
-   * @param relationshipLabel - The label for the relationship
-   * @param source - The ID of the source node
-   * @param target - The ID of the target node
-   * @param direction - The direction of the relationship
-   * @param options - Query options
-   * @returns A promise that resolves to true if the relationship was created successfully
+   * Finds the shortest paths between two nodes
+   * @param fn - The Cypher function used to find the paths
+   * @param source - The ID of the node the paths start from
+   * @param target - The ID of the node the paths end at
+   * @param traversal - The labels of the nodes, and the relationship types, direction and length of the paths
+   * @param options - Query options, the query is routed as a read by default
+   * @returns A promise that resolves to the paths
+   * @private
    */
-  async join(
-    relationshipLabel: string,
-    source: number,
-    target: number,
-    direction: RelationshipDirections,
-    options = {}
-  ): Promise<boolean> {
-    try {
-      let directionStr = `-[r:${relationshipLabel}]-`;
-      switch (direction) {
-        case 'from':
-          directionStr = `-[r:${relationshipLabel}]->`;
-          break;
-        case 'to':
-          directionStr = `<-[r:${relationshipLabel}]-`;
-          break;
-        case 'both':
-          directionStr = `-[r:${relationshipLabel}]-`;
-          break;
+  private async findShortestPaths(
+    fn: 'shortestPath' | 'allShortestPaths',
+    source: RecordId,
+    target: RecordId,
+    {
+      sourceLabel,
+      targetLabel,
+      types = [],
+      direction = 'none',
+      maxDepth
+    }: ShortestPathOptions,
+    options: Neo4jQueryOptions
+  ) {
+    const pattern = new Neo4jQueryBuilder<
+      's' | 't'
+    >().buildRelationshipReference(
+      { variable: 's' },
+      { variable: 't' },
+      direction,
+      {
+        variable: 'r',
+        label: types.join('|'),
+        minHops: 1,
+        maxHops: maxDepth
       }
+    );
 
-      const queryStr = [
-        'MATCH (n) WHERE n.id = $source',
-        'WITH n as source',
-        'MATCH (m) where m.id = $target',
-        'WITH m as target, source',
-        `MERGE (source)${directionStr}(target)`,
-        'RETURN r'
-      ].join(' ');
+    const result = await this.execute<QueryResult>(
+      [
+        `MATCH (${this.buildEndpoint('s', sourceLabel)}) WHERE ${this.idExpression('s')} = $source`,
+        `MATCH (${this.buildEndpoint('t', targetLabel)}) WHERE ${this.idExpression('t')} = $target`,
+        `MATCH p = ${fn}(${pattern})`,
+        'RETURN p'
+      ].join(' '),
+      { source, target },
+      { accessMode: 'READ', ...options }
+    );
 
-      const result = await this.execute<QueryResult>(
-        queryStr,
-        { source, target, relationshipLabel },
-        options
-      );
+    return result.records.map((record) => {
+      const path: Path = record.get('p');
 
-      return result.records.length > 0;
-    } catch (error) {
-      this.logger.error(error as Error, 'Unable to join nodes');
-      return false;
-    }
+      return this.parseGraph(
+        [path.start, ...path.segments.map((segment) => segment.end)],
+        path.segments.map((segment) => segment.relationship)
+      );
+    });
   }
 
   /**
-   * Selects nodes from the database based on a query
-   * @template T - The type of data to select
-   * @param table - The label of the nodes to select
-   * @param query - The query to filter nodes
-   * @param options - Query options
-   * @returns A promise that resolves to the selected data
+   * Builds a node pattern for an endpoint of a relationship
+   * @param variable - The node variable
+   * @param label - The label of the node, if known
+   * @returns The node pattern without parentheses
+   * @private
    */
-  async select<T extends object = object>(
-    table: string,
-    query: QueryInterface<T>,
-    options = {}
-  ) {
-    const { query: queryStr, params } = new Neo4jQueryBuilder()
-      .select(table, 'n', query?.where)
-      .build();
-
-    return this.execute<QueryResult>(queryStr, params, options).then((result) =>
-      this.parseResponse<T>(result)
-    );
+  private buildEndpoint(variable: string, label?: string) {
+    return label ? `${variable}:${escapeLabel(label)}` : variable;
   }
 
   /**
-   * Execute a database transaction that can contain multiple operations
-   * @template T - The return type of the transaction
-   * @param callback - The function to execute within the transaction
-   * @returns A promise that resolves to the result of the transaction
+   * Builds the pattern of a relationship `r` between the nodes `s` and `t`
+   * @param relationshipLabel - The label of the relationship
+   * @param direction - The direction of the relationship from `s`
+   * @param endpoints - The labels of the nodes
+   * @returns The relationship pattern
+   * @private
    */
-  async transaction<T>(
-    callback: (transaction: ManagedTransaction) => Promise<T>
+  private buildRelationshipPattern(
+    relationshipLabel: string,
+    direction: RelationshipDirections,
+    { sourceLabel, targetLabel }: RelationshipEndpoints = {}
   ) {
-    const session: Session = await this.getSession();
+    const source = `(${this.buildEndpoint('s', sourceLabel)})`;
+    const target = `(${this.buildEndpoint('t', targetLabel)})`;
+    const relationship = `[r:${escapeRelationshipType(relationshipLabel)}]`;
 
-    return await session.executeWrite(callback);
+    switch (direction) {
+      case 'from':
+        return `${source}-${relationship}->${target}`;
+      case 'to':
+        return `${source}<-${relationship}-${target}`;
+      default:
+        return `${source}-${relationship}-${target}`;
+    }
   }
 
   /**
-   * Updates an existing node in the database
-   * @template T - The type of data to update
-   * @template Key - The type of the node ID
-   * @param nodeLabel - The label of the node to update
-   * @param id - The ID of the node to update
-   * @param data - The data to update
-   * @param options - Query options
-   * @returns A promise that resolves to the updated data
+   * Builds the RETURN clause of the relationship methods
+   * @returns The clause returning the relationship and the IDs of its nodes
+   * @private
    */
-  async update<T = unknown, Key = number>(
-    nodeLabel: string,
-    id: Key,
-    data: object,
-    options = {}
-  ) {
-    return this.execute<QueryResult>(
-      `MATCH (n:${nodeLabel}) WHERE id(n) = $id SET n += $data, n.updatedAt = datetime() RETURN n`,
-      {
-        id,
-        data
-      },
-      options
-    ).then((result) => this.parseResponse<T>(result)[0]);
+  private buildRelationshipReturn() {
+    return `RETURN r, ${this.idExpression('startNode(r)')} AS startId, ${this.idExpression('endNode(r)')} AS endId`;
   }
 
   /**
-   * Updates an existing node or creates it if it doesn't exist
-   * @template T - The type of data to upsert
-   * @param nodeLabel - The label of the node to upsert
-   * @param id - The ID of the node to upsert
-   * @param data - The data to upsert
-   * @param options - Query options
-   * @returns A promise that resolves to an array of the upserted nodes
+   * Gets the soft-delete policy of a label.  Labels can be combined with
+   * colons, in which case the node is soft-deleted when any of its labels
+   * has a policy
+   * @param label - The label, or labels separated by colons
+   * @returns The policy, or undefined when soft delete is not enabled for any of the labels
+   * @throws Error if the labels have different policies
+   * @private
    */
-  async upsert<T = unknown>(
-    nodeLabel: string,
-    id: number,
-    data: object,
-    options = {}
-  ) {
-    return this.execute<QueryResult>(
-      [
-        'MERGE (n:' + nodeLabel + ' {id: $id})',
-        'ON CREATE SET n += $data, n.createdAt = datetime(), n.updatedAt = datetime()',
-        'ON MATCH SET n += $data, n.updatedAt = datetime()',
-        'RETURN n'
-      ].join(' '),
-      {
-        id,
-        data
-      },
-      options
-    ).then((result) => this.parseResponse<T>(result)[0]);
+  private getSoftDeletePolicy(label: string) {
+    // Invalid labels are reported when they are escaped
+    if (typeof label !== 'string') {
+      return undefined;
+    }
+
+    const policies = label
+      .split(':')
+      .map((part) => this.softDeletePolicies.get(part))
+      .filter((policy): policy is SoftDeletePolicy => policy !== undefined);
+
+    const [policy] = policies;
+
+    if (
+      policies.some(
+        ({ property, relationships }) =>
+          property !== policy.property || relationships !== policy.relationships
+      )
+    ) {
+      throw new Error(
+        `The labels "${label}" have different soft-delete policies`
+      );
+    }
+
+    return policy;
   }
 
   /**
-   * Executes a Cypher query against the Neo4j database
-   * @template T - The type of data being returned by the query
-   * @param query - The Cypher query to execute
-   * @param params - The parameters to use in the query
-   * @param options - Query options
-   * @returns A Promise resolving to the query result
+   * Builds the conditions which leave out the soft-deleted nodes of a
+   * label, and the relationships the label hides when its nodes are deleted
+   * @param variable - The node variable
+   * @param label - The label of the node, if known
+   * @returns The conditions, empty when soft delete is not enabled for the label
+   * @private
    */
-  async execute<T = QueryResult>(
-    query: string,
-    params: Record<string, unknown> = {},
-    options: QueryOptions<Session, ManagedTransaction> = {}
-  ): Promise<T> {
-    // If passed a managed transaction, then we can simply use it
-    // we do not need to try/catch because the managed transaction
-    // comes from a wrapper function that handles the transaction
-    if (options.transaction) {
-      return options.transaction.run(query, params) as unknown as T;
+  private buildSoftDeleteFilters(variable: string, label?: string) {
+    const policy = label ? this.getSoftDeletePolicy(label) : undefined;
+
+    if (!policy) {
+      return [];
     }
 
-    // Otherwise we need to check if the session is passed in the options
-    // or we need to get a new session
-    const session: Session = options.session ?? (await this.getSession());
+    const property = escapeIdentifier(policy.property);
+    const filters = [`${variable}.${property} IS NULL`];
 
-    try {
-      const result = await session.run(query, params);
-      return result as unknown as T;
-    } finally {
-      await session.close();
+    if (policy.relationships === 'hide') {
+      filters.push(`r.${property} IS NULL`);
     }
+
+    return filters;
+  }
+
+  /**
+   * Gets the Cypher expression for the ID of a node variable
+   * @param variable - The node variable
+   * @returns `elementId(n)` or the escaped ID property
+   * @private
+   */
+  private idExpression(variable: string) {
+    return this.idStrategy === 'elementId'
+      ? `elementId(${variable})`
+      : `${variable}.${escapeIdentifier(this.idProperty)}`;
   }
 
   /**
    * Gets a Neo4j session from the driver
+   * @param options - The access mode and bookmarks for the session
    * @returns A Neo4j session
    * @private
    */
-  protected async getSession() {
-    const driver = await Neo4j.getInstance();
+  protected async getSession(options: SessionOptions = {}) {
+    const driver = await Neo4j.getInstance(this.logger, this.connection);
 
     if (!driver) {
       throw new Error('Failed to get Neo4j driver instance');
     }
 
-    return driver.session();
+    const config = Neo4j.connections.get(this.connection)?.config;
+
+    return driver.session({
+      database: this.database ?? config?.database,
+      defaultAccessMode: options.accessMode,
+      bookmarks: options.bookmarks,
+      bookmarkManager: this.bookmarkManager,
+      fetchSize: options.fetchSize
+    });
+  }
+
+  /**
+   * Closes a session, keeping its bookmarks so that they can be
+   * passed to later queries
+   * @param session - The session to close
+   * @private
+   */
+  protected async closeSession(session: Session) {
+    this.lastBookmarks = session.lastBookmarks();
+    await session.close();
   }
 
   /**
-   * Parses a Neo4j QueryResult into an array of Node objects
+   * Parses a Neo4j QueryResult into an array of Node objects, taking the
+   * values of every column.  Use `decodeResult` to get rows keyed by column.
    * @template T - The type of data in the nodes
    * @param result - The Neo4j QueryResult to parse
-   * @returns An array of Node objects with the properties from the result
+   * @returns An array of Node objects with the properties and ID from the result
    * @protected
    */
   parseResponse<T>(result: QueryResult): Node<T>[] {
-    const data = result.records.flatMap((record) => {
-      const recordMetadata = record.toObject();
-
-      return Object.values(recordMetadata).map((record) => {
-        return parseDateProperties(
-          {
-            ...record.properties,
-            labels: record.labels,
-            _id: record.identity
-          },
-          ['createdAt', 'updatedAt', 'identity']
-        );
-      });
-    });
+    const data = result.records.flatMap((record) =>
+      Object.values(record.toObject()).map((value) =>
+        isNode(value)
+          ? this.parseNode(value)
+          : decodeValue(value, this.converter)
+      )
+    );
     return data as Node<T>[];
   }
 
   /**
-   * Creates a connection to the Neo4j database or returns the existing connection
-   * @returns Promise resolving to the Neo4j instance
+   * Parses the result of a select query, nesting the related nodes of
+   * each joined relationship type under the type
+   * @template T - The type of data in the nodes
+   * @template Join - The relationship types which were joined
+   * @param result - The Neo4j QueryResult to parse
+   * @param join - The relationship types which were joined
+   * @returns The selected nodes
+   * @private
    */
-  static async connect(logger?: Logger) {
-    // If an instance already exists, return it
-    if (Neo4j.instance) {
-      return Neo4j.instance;
+  private parseSelected<T, Join extends JoinInterface>(
+    result: QueryResult,
+    join: Join | undefined
+  ): Selected<T, Join>[] {
+    const types = Object.keys(join ?? {});
+
+    if (types.length === 0) {
+      return this.parseResponse<T>(result) as Selected<T, Join>[];
     }
 
-    const connectionString =
-      process.env.NEO4J_CONNECTION_STRING ?? 'bolt://localhost:7687';
+    return result.records.map((record) =>
+      this.parseSelectedRecord<T, Join>(record, types)
+    );
+  }
+
+  /**
+   * Parses a record of a select query, which returns the node as `n` and
+   * the related nodes of each joined relationship type as `j0`, `j1`, ...
+   * @template T - The type of data in the node
+   * @template Join - The relationship types which were joined
+   * @param record - The record to parse
+   * @param types - The relationship types which were joined
+   * @returns The selected node
+   * @private
+   */
+  private parseSelectedRecord<T, Join extends JoinInterface>(
+    record: Neo4jRecord,
+    types: string[]
+  ) {
+    const node: Record<string, unknown> = this.parseNode(record.get('n'));
+
+    types.forEach((type, index) => {
+      node[type] = (record.get(`j${index}`) as Neo4jNode[]).map((related) =>
+        this.parseNode(related)
+      );
+    });
+
+    return node as Selected<T, Join>;
+  }
+
+  /**
+   * Decodes a node, replacing the internal identity with the ID from the
+   * strategy
+   * @param value - The node returned by the driver
+   * @returns The properties and ID of the node
+   * @private
+   */
+  private parseNode(value: Neo4jNode) {
+    const node = omit(decodeNode(value, this.converter), '_id');
+
+    return {
+      ...node,
+      id:
+        this.idStrategy === 'elementId'
+          ? value.elementId
+          : node[this.idProperty]
+    };
+  }
+
+  /**
+   * Parses nodes and the relationships between them, replacing the
+   * internal identities of the relationship nodes with their IDs
+   * @param nodes - The nodes returned by the driver
+   * @param relationships - The relationships between the nodes
+   * @returns The decoded nodes and relationships
+   * @private
+   */
+  private parseGraph(
+    nodes: Neo4jNode[],
+    relationships: Neo4jRelationship[]
+  ): Subgraph {
+    const parsed = new Map(
+      nodes.map((node) => [node.elementId, this.parseNode(node)])
+    );
+
+    return {
+      nodes: [...parsed.values()] as Node<object>[],
+      relationships: relationships.map(
+        (value) =>
+          ({
+            ...omit(decodeRelationship(value, this.converter), '_id'),
+            start: parsed.get(value.startNodeElementId)?.id,
+            end: parsed.get(value.endNodeElementId)?.id
+          }) as Relationship<object>
+      )
+    };
+  }
+
+  /**
+   * Parses the relationships returned by the relationship methods, which
+   * return the relationship `r` and the IDs of its nodes
+   * @template T - The type of the relationship properties
+   * @param result - The Neo4j QueryResult to parse
+   * @returns The relationships with their properties, type and node IDs
+   * @private
+   */
+  private parseRelationships<T>(result: QueryResult): Relationship<T>[] {
+    // Replace the internal identities with the IDs from the strategy
+    return result.records.map(
+      (record) =>
+        ({
+          ...omit(decodeRelationship(record.get('r'), this.converter), '_id'),
+          start: decodeValue(record.get('startId'), this.converter),
+          end: decodeValue(record.get('endId'), this.converter)
+        }) as Relationship<T>
+    );
+  }
+
+  /**
+   * Closes a connection and removes it from the registry
+   * @param name - Name of the connection to close (defaults to 'default')
+   * @returns Promise that resolves when the connection is closed
+   */
+  static async close(name = DEFAULT_CONNECTION) {
+    const connection = Neo4j.connections.get(name);
+
+    if (connection) {
+      Neo4j.connections.delete(name);
+      await connection.driver.close();
+    }
+  }
 
-    Neo4j.instance = driver(
-      connectionString, // Replace with your Neo4j instance URL
-      auth.basic('neo4j', 'your_password') // Replace with your credentials
+  /**
+   * Closes all of the registered connections
+   * @returns Promise that resolves when all of the connections are closed
+   */
+  static async closeAll() {
+    await Promise.all(
+      Array.from(Neo4j.connections.keys()).map((name) => Neo4j.close(name))
     );
+  }
+
+  /**
+   * Creates a named connection to the Neo4j database or returns the existing
+   * connection with the same name.  `connect(logger)` is still accepted, and
+   * creates the default connection from the environment variables.
+   * @param config - Connection options, missing values fall back to the environment variables
+   * @param logger - Optional logger used to report the connection
+   * @returns Promise resolving to the driver for the connection
+   * @throws ConfigurationError if the connection options are invalid
+   */
+  static async connect(logger?: Logger): Promise<Driver>;
+  static async connect(
+    config?: Neo4jConnectionConfig,
+    logger?: Logger
+  ): Promise<Driver>;
+  static async connect(
+    configOrLogger: Neo4jConnectionConfig | Logger = {},
+    logger?: Logger
+  ): Promise<Driver> {
+    if (isLogger(configOrLogger)) {
+      return Neo4j.connect({}, configOrLogger);
+    }
+
+    const config = configOrLogger;
+    const name = config.name ?? DEFAULT_CONNECTION;
+
+    // If the connection already exists, return it
+    const existing = Neo4j.connections.get(name);
+    if (existing) {
+      return existing.driver;
+    }
 
-    logger?.log('debug', 'Connected to Neo4j', { database: connectionString });
+    const resolvedConfig = resolveConnectionConfig(config);
 
-    return Neo4j.instance;
+    const connection: Connection = {
+      driver: driver(
+        resolvedConfig.uri,
+        createAuthToken(resolvedConfig),
+        createDriverConfig(resolvedConfig)
+      ),
+      config: resolvedConfig
+    };
+    Neo4j.connections.set(name, connection);
+
+    logger?.log('debug', 'Connected to Neo4j', {
+      connection: name,
+      database: resolvedConfig.uri,
+      auth: resolvedConfig.auth.type
+    });
+
+    return connection.driver;
   }
 
   /**
-   * Gets the singleton instance of the Neo4j class
-   * @returns Promise resolving to the Neo4j instance
-   * @throws Error if called before connect()
+   * Gets the driver for a named connection.  The default connection is
+   * created from the environment variables if it does not exist yet.
+   * @param logger - Optional logger used to report the connection
+   * @param name - Name of the connection (defaults to 'default')
+   * @returns Promise resolving to the driver for the connection
+   * @throws ConfigurationError if a named connection has not been registered
    */
-  static async getInstance(logger?: Logger) {
-    if (!Neo4j.instance) {
-      return Neo4j.connect(logger);
+  static async getInstance(logger?: Logger, name = DEFAULT_CONNECTION) {
+    const connection = Neo4j.connections.get(name);
+
+    if (connection) {
+      return connection.driver;
     }
-    return Neo4j.instance;
+
+    if (name !== DEFAULT_CONNECTION) {
+      throw new ConfigurationError(
+        'name',
+        `connection "${name}" has not been registered with Neo4j.connect()`
+      );
+    }
+
+    return Neo4j.connect({}, logger);
   }
 }
@@ -1,5 +1,10 @@
-import { RelationshipDirections } from './database';
+import { int } from 'neo4j-driver';
+import { RelationshipDirections, SortDirection } from './database';
+import { InvalidIdentifierError } from './errors';
+import { DEFAULT_AUDIT_POLICY } from './audit';
 import { Neo4jQueryBuilder, NodeSelector } from './query-builder';
+import { WhereCondition } from './where-builder';
+import { Aggregate } from './aggregate-builder';
 
 type BuildRelationShipRefCases = Array<
   [
@@ -12,6 +17,8 @@ type BuildRelationShipRefCases = Array<
           label: string;
           variable: string;
           properties: Record<string, unknown>;
+          minHops: number;
+          maxHops: number;
         }>
       | undefined
     ),
@@ -338,6 +345,111 @@ describe('Neo4jQueryBuilder', () => {
       );
     });
 
+    describe('Variable Length Tests', () => {
+      const cases: BuildRelationShipRefCases = [
+        [
+          'should build a relationship with a minimum and maximum hop count',
+          { variable: 'a' },
+          { variable: 'b' },
+          'from',
+          { variable: 'r', label: 'KNOWS', minHops: 1, maxHops: 3 },
+          '(a)-[r:KNOWS*1..3]->(b)',
+          {}
+        ],
+        [
+          'should build a relationship with only a minimum hop count',
+          { variable: 'a' },
+          { variable: 'b' },
+          'none',
+          { variable: 'r', minHops: 2 },
+          '(a)-[r*2..]-(b)',
+          {}
+        ],
+        [
+          'should build a relationship with only a maximum hop count',
+          { variable: 'a' },
+          { variable: 'b' },
+          'to',
+          { variable: 'r', label: 'KNOWS', maxHops: 4 },
+          '(a)<-[r:KNOWS*..4]-(b)',
+          {}
+        ],
+        [
+          'should place the hop range before the relationship properties',
+          { variable: 'a' },
+          { variable: 'b' },
+          'from',
+          {
+            variable: 'r',
+            label: 'KNOWS',
+            minHops: 1,
+            maxHops: 2,
+            properties: { since: 2020 }
+          },
+          '(a)-[r:KNOWS*1..2 {since: $r_since}]->(b)',
+          { r_since: 2020 }
+        ]
+      ];
+
+      it.each(cases)(
+        '%s',
+        (
+          _description,
+          sourceNode,
+          targetNode,
+          direction,
+          attributes,
+          expectedQuery,
+          expectedParams
+        ) => {
+          // Arrange
+          const builder = new Neo4jQueryBuilder();
+
+          // Act
+          const relationshipReference = builder.buildRelationshipReference(
+            sourceNode as any, // Using any here because the case list defines the type
+            targetNode as any, // Using any here because the case list defines the type
+            direction,
+            attributes
+          );
+
+          // Assert
+          expect(relationshipReference).toBe(expectedQuery);
+          expect(builder.build().params).toEqual(expectedParams);
+        }
+      );
+
+      it('should throw when the minimum hop count is greater than the maximum', () => {
+        // Arrange
+        const builder = new Neo4jQueryBuilder();
+
+        // Act & Assert
+        expect(() =>
+          builder.buildRelationshipReference(
+            { variable: 'a' } as any, // Using any because the builder has no tracked nodes
+            { variable: 'b' } as any, // Using any because the builder has no tracked nodes
+            'from',
+            { minHops: 3, maxHops: 1 }
+          )
+        ).toThrow('minHops cannot be greater than maxHops');
+      });
+
+      it('should throw when the hop count is negative', () => {
+        // Arrange
+        const builder = new Neo4jQueryBuilder();
+
+        // Act & Assert
+        expect(() =>
+          builder.buildRelationshipReference(
+            { variable: 'a' } as any, // Using any because the builder has no tracked nodes
+            { variable: 'b' } as any, // Using any because the builder has no tracked nodes
+            'from',
+            { minHops: -1 }
+          )
+        ).toThrow('Relationship hops must be non-negative integers');
+      });
+    });
+
     describe('Edge Cases', () => {
       const cases: BuildRelationShipRefCases = [
         [
@@ -355,7 +467,7 @@ describe('Neo4jQueryBuilder', () => {
           { variable: 'prop' },
           'from',
           { variable: 'rel', properties: { 'special-key': 'special value' } },
-          '(car)-[rel {special-key: $rel_special_key}]->(prop)',
+          '(car)-[rel {`special-key`: $rel_special_key}]->(prop)',
           { rel_special_key: 'special value' }
         ],
         [
@@ -402,6 +514,295 @@ describe('Neo4jQueryBuilder', () => {
     });
   });
 
+  describe('identifier escaping', () => {
+    it('should escape hostile labels and property keys', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (n:`User) DETACH DELETE n //` {`name}) DETACH DELETE n //`: $n_name___DETACH_DELETE_n___}) RETURN n';
+
+      const builder = new Neo4jQueryBuilder().select(
+        'User) DETACH DELETE n //',
+        'n',
+        { 'name}) DETACH DELETE n //': 'x' }
+      );
+
+      // Act
+      const { query } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+    });
+
+    it('should escape backticks in relationship types and referenced properties', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) MATCH (p:Post) MATCH (u)-[r:`LIKES``]->() DELETE u //`]->(p) WHERE u.`a``b` = $u_a_b RETURN u, p, r';
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .select('Post', 'p')
+        .join('u', 'p', 'from', {
+          variable: 'r',
+          label: 'LIKES`]->() DELETE u //'
+        })
+        .where((w) => w.eq('u.a`b', 1));
+
+      // Act
+      const { query } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+    });
+
+    it('should keep multiple labels and relationship types', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder()
+        .select('User:Admin', 'u')
+        .select('User', 'f')
+        .join('u', 'f', 'from', { variable: 'r', label: 'KNOWS|FOLLOWS' });
+
+      // Act
+      const { query } = builder.build();
+
+      // Assert
+      expect(query).toBe(
+        'MATCH (u:User:Admin) MATCH (f:User) MATCH (u)-[r:KNOWS|FOLLOWS]->(f) RETURN u, f, r'
+      );
+    });
+
+    it.each([
+      ['a variable containing Cypher', 'n) DETACH DELETE (n'],
+      ['a variable starting with a number', '1n'],
+      ['an empty variable alias', ' ']
+    ])('should reject %s', (_description, variable) => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder();
+
+      // Act & Assert
+      expect(() =>
+        builder.select('User', variable).with({ [variable]: 'a' })
+      ).toThrow(InvalidIdentifierError);
+    });
+
+    it('should reject empty labels in set and remove', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder().select('User', 'u');
+
+      // Act & Assert
+      expect(() => builder.set('u', {}, { labels: [''] })).toThrow(
+        InvalidIdentifierError
+      );
+      expect(() => builder.remove('u', { properties: [''] })).toThrow(
+        InvalidIdentifierError
+      );
+    });
+  });
+
+  describe('createNode', () => {
+    it('should merge on all of the properties by default', () => {
+      // Arrange
+      const expectedQuery = 'MERGE (u:User {email: $u_email}) RETURN u';
+      const expectedParams = { u_email: 'test@example.com' };
+
+      const builder = new Neo4jQueryBuilder().createNode(
+        'User',
+        { email: 'test@example.com' },
+        'u'
+      );
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it('should create a node with the create properties', () => {
+      // Arrange
+      const expectedQuery =
+        'CREATE (u:User {name: $u_name, role: $u_role}) RETURN u';
+      const expectedParams = { u_name: 'Test', u_role: 'admin' };
+
+      const builder = new Neo4jQueryBuilder().createNode(
+        'User',
+        { name: 'Test' },
+        'u',
+        { mode: 'create', onCreate: { role: 'admin' } }
+      );
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it.each([
+      ['key', { key: ['name'] }],
+      ['onMatch', { onMatch: { x: 1 } }]
+    ])('should throw when %s is used in create mode', (_, options) => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder();
+
+      // Act & Assert
+      expect(() =>
+        builder.createNode('User', { name: 'Test' }, 'u', {
+          mode: 'create',
+          ...options
+        })
+      ).toThrow('key and onMatch can only be used to merge a node');
+    });
+
+    it('should merge on the key and set the remaining properties', () => {
+      // Arrange
+      const expectedQuery =
+        'MERGE (u:User {email: $u_email}) ON CREATE SET u += $u_on_create ON MATCH SET u += $u_on_match RETURN u';
+      const expectedParams = {
+        u_email: 'test@example.com',
+        u_on_create: { name: 'Test', createdAt: '2024-01-01' },
+        u_on_match: { name: 'Test', updatedAt: '2024-01-02' }
+      };
+
+      const builder = new Neo4jQueryBuilder().createNode(
+        'User',
+        { email: 'test@example.com', name: 'Test' },
+        'u',
+        {
+          key: ['email'],
+          onCreate: { createdAt: '2024-01-01' },
+          onMatch: { updatedAt: '2024-01-02' }
+        }
+      );
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it('should throw when the merge key is not a property', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder();
+
+      // Act & Assert
+      expect(() =>
+        builder.createNode('User', { name: 'Test' }, 'u', { key: ['email'] })
+      ).toThrow('Merge key "email" is not one of the node properties');
+    });
+
+    it('should stamp the audit fields when the node is created or matched', () => {
+      // Arrange
+      jest.useFakeTimers({ now: new Date('2024-01-02T03:04:05.000Z') });
+
+      const expectedQuery =
+        'MERGE (u:User {email: $u_email}) ON CREATE SET u += $u_on_create ON MATCH SET u += $u_on_match RETURN u';
+      const expectedParams = {
+        u_email: 'test@example.com',
+        u_on_create: {
+          createdAt: '2024-01-02T03:04:05.000Z',
+          createdBy: 'alice',
+          updatedAt: '2024-01-02T03:04:05.000Z',
+          updatedBy: 'alice'
+        },
+        u_on_match: {
+          updatedAt: '2024-01-02T03:04:05.000Z',
+          updatedBy: 'alice'
+        }
+      };
+
+      const builder = new Neo4jQueryBuilder({
+        audit: { ...DEFAULT_AUDIT_POLICY, timestamps: 'string' },
+        actor: 'alice'
+      }).createNode('User', { email: 'test@example.com' }, 'u');
+
+      // Act
+      const { query, params } = builder.build();
+      jest.useRealTimers();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+  });
+
+  describe('createRelationship and mergeRelationship', () => {
+    it('should create a relationship between tracked nodes', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User {id: $u_id}) MATCH (p:Post {id: $p_id}) CREATE (u)-[r:LIKES {at: $r_at}]->(p) RETURN r';
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u', { id: 1 })
+        .select('Post', 'p', { id: 2 })
+        .createRelationship('u', 'p', 'from', {
+          label: 'LIKES',
+          variable: 'r',
+          properties: { at: '2024-01-01' }
+        })
+        .customReturn('r');
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual({ u_id: 1, p_id: 2, r_at: '2024-01-01' });
+    });
+
+    it('should merge a relationship with create and match properties', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) MATCH (f:User) MERGE (u)-[a:FOLLOWS]-(f) ON CREATE SET a += $a_on_create ON MATCH SET a += $a_on_match RETURN u, f, a';
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .select('User', 'f')
+        .mergeRelationship('u', 'f', 'none', {
+          label: 'FOLLOWS',
+          onCreate: { since: 2024 },
+          onMatch: { seen: true }
+        });
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual({
+        a_on_create: { since: 2024 },
+        a_on_match: { seen: true }
+      });
+    });
+
+    it('should throw when creating an undirected relationship', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .select('User', 'f');
+
+      // Act & Assert
+      expect(() =>
+        builder.createRelationship('u', 'f', 'both', { label: 'FOLLOWS' })
+      ).toThrow('createRelationship() requires a from or to direction');
+    });
+
+    it('should throw when the relationship label is missing', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .select('User', 'f');
+
+      // Act & Assert
+      expect(() =>
+        builder.mergeRelationship('u', 'f', 'from', { label: '' })
+      ).toThrow('MERGE requires a relationship label');
+    });
+  });
+
   describe('customReturn', () => {
     it('should build a return statement which includes only the selected nodes', () => {
       // Arrange
@@ -420,6 +821,101 @@ describe('Neo4jQueryBuilder', () => {
     });
   });
 
+  describe('orderBy, skip and limit', () => {
+    it('should append ordering and paging after the return clause', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) RETURN u ORDER BY u.name ASC, u.age DESC SKIP $skip LIMIT $limit';
+      const expectedParams = { skip: int(20), limit: int(10) };
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .orderBy('u.name')
+        .orderBy('u.age', 'DESC')
+        .skip(20)
+        .limit(10);
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it('should compose with a custom return statement', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) MATCH (p:Post) RETURN p ORDER BY p.createdAt DESC LIMIT $limit';
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .select('Post', 'p')
+        .limit(5)
+        .orderBy('p.createdAt', 'DESC')
+        .customReturn('p');
+
+      // Act
+      const { query } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+    });
+
+    it('should replace the value when called more than once', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .limit(5)
+        .limit(10);
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe('MATCH (u:User) RETURN u LIMIT $limit');
+      expect(params).toEqual({ limit: int(10) });
+    });
+
+    it('should throw when the count is not a non-negative integer', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder().select('User', 'u');
+
+      // Act & Assert
+      expect(() => builder.skip(-1)).toThrow(
+        'skip must be a non-negative integer'
+      );
+      expect(() => builder.limit(1.5)).toThrow(
+        'limit must be a non-negative integer'
+      );
+    });
+
+    it('should throw when ordering by an unknown node variable', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder().select('User', 'u');
+
+      // Act & Assert
+      expect(() =>
+        builder.orderBy(
+          'x.name' as unknown as Parameters<typeof builder.orderBy>[0]
+        )
+      ).toThrow('Unknown node variable "x"');
+    });
+
+    it('should throw when the direction is not ASC or DESC', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder().select('User', 'u');
+
+      // Act & Assert
+      expect(() =>
+        builder.orderBy(
+          'u.name',
+          'ASC MATCH (x) DETACH DELETE x //' as SortDirection
+        )
+      ).toThrow('Sort direction must be ASC or DESC');
+    });
+  });
+
   describe('peek', () => {
     beforeAll(() => {
       // Stub all the console methods
@@ -497,11 +993,477 @@ describe('Neo4jQueryBuilder', () => {
     });
   });
 
-  describe('join', () => {
-    it('should create a relationship between two nodes', () => {
+  describe('set and remove', () => {
+    it('should set the updated audit fields', () => {
       // Arrange
-      const expectedQuery =
-        'MATCH (car:Car {id: $car_id}) MATCH (prop:Property {type: $prop_type}) MATCH (car)-[r:RACES_AT]->(prop) RETURN car,prop';
+      const expectedQuery = 'MATCH (u:User) SET u += $u_set, u:Admin RETURN u';
+
+      const builder = new Neo4jQueryBuilder({
+        audit: { ...DEFAULT_AUDIT_POLICY, timestamps: 'number' }
+      })
+        .select('User', 'u')
+        .set('u', {}, { labels: ['Admin'] });
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual({ u_set: { updatedAt: expect.any(Number) } });
+    });
+
+    it('should merge properties and add labels', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User {id: $u_id}) SET u += $u_set, u:Admin:Active RETURN u';
+      const expectedParams = { u_id: 1, u_set: { name: 'Test' } };
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u', { id: 1 })
+        .set('u', { name: 'Test' }, { labels: ['Admin', 'Active'] });
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it('should replace properties', () => {
+      // Arrange
+      const expectedQuery = 'MATCH (u:User) SET u = $u_set RETURN u';
+      const expectedParams = { u_set: { name: 'Test' } };
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .set('u', { name: 'Test' }, { replace: true });
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it('should keep the created audit fields when replacing properties', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) SET u = u {.createdAt, .createdBy}, u += $u_set RETURN u';
+
+      const builder = new Neo4jQueryBuilder({
+        audit: { ...DEFAULT_AUDIT_POLICY, timestamps: 'number' },
+        actor: 'alice'
+      })
+        .select('User', 'u')
+        .set('u', { name: 'Test' }, { replace: true });
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual({
+        u_set: {
+          name: 'Test',
+          updatedAt: expect.any(Number),
+          updatedBy: 'alice'
+        }
+      });
+    });
+
+    it('should remove properties and labels', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) REMOVE u.email, u.phone, u:Admin RETURN u';
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .remove('u', { properties: ['email', 'phone'], labels: ['Admin'] });
+
+      // Act
+      const { query } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+    });
+
+    it('should throw when there is nothing to set or remove', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder().select('User', 'u');
+
+      // Act & Assert
+      expect(() => builder.set('u')).toThrow(
+        'set() requires at least one property or label'
+      );
+      expect(() => builder.remove('u', {})).toThrow(
+        'remove() requires at least one property or label'
+      );
+    });
+  });
+
+  describe('delete and detachDelete', () => {
+    it('should delete relationships and keep returning the nodes', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) MATCH (p:Post) MATCH (u)-[r:LIKES]->(p) DELETE r RETURN u, p';
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .select('Post', 'p')
+        .join('u', 'p', 'from', { variable: 'r', label: 'LIKES' })
+        .delete('r');
+
+      // Act
+      const { query } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+    });
+
+    it('should not return anything once all of the variables are deleted', () => {
+      // Arrange
+      const expectedQuery = 'MATCH (u:User) WHERE u.id = $u_id DETACH DELETE u';
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .where((w) => w.eq('u.id', 1))
+        .detachDelete('u');
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual({ u_id: 1 });
+    });
+
+    it('should throw when no variables are provided', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder().select('User', 'u');
+
+      // Act & Assert
+      expect(() => builder.detachDelete()).toThrow(
+        'DETACH DELETE requires at least one variable'
+      );
+    });
+  });
+
+  describe('with', () => {
+    it('should project variables and aggregations', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) MATCH (u)-[w:WROTE]->(p:Post) WITH u, collect(p) AS posts, count(DISTINCT p) AS total, sum(p.likes) AS likes RETURN u,posts,total,likes';
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .join('u', { variable: 'p', label: 'Post' }, 'from', {
+          variable: 'w',
+          label: 'WROTE'
+        })
+        .with((a) => ({
+          u: 'u',
+          posts: a.collect('p'),
+          total: a.count('p', { distinct: true }),
+          likes: a.sum('p.likes')
+        }))
+        .customReturn('u', 'posts', 'total', 'likes');
+
+      // Act
+      const { query } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+    });
+
+    it('should replace the tracked variables with the projection', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (o:Order) WITH o.customer AS customer, avg(o.total) AS average, min(o.total) AS lowest, max(o.total) AS highest, count(*) AS orders WHERE orders > $orders RETURN customer, average, lowest, highest, orders ORDER BY average DESC';
+
+      const builder = new Neo4jQueryBuilder()
+        .select('Order', 'o')
+        .with((a) => ({
+          customer: 'o.customer',
+          average: a.avg('o.total'),
+          lowest: a.min('o.total'),
+          highest: a.max('o.total'),
+          orders: a.count()
+        }))
+        .where((w) => w.gt('orders', 5))
+        .orderBy('average', 'DESC');
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual({ orders: 5 });
+    });
+
+    it('should rename variables which are passed through', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .with({ author: 'u' })
+        .where((w) => w.eq('author.name', 'Test'));
+
+      // Act
+      const { query } = builder.build();
+
+      // Assert
+      expect(query).toBe(
+        'MATCH (u:User) WITH u AS author WHERE author.name = $author_name RETURN author'
+      );
+      expect(() =>
+        builder.where((w) =>
+          w.eq('u.name' as unknown as Parameters<typeof w.eq>[0], 'Test')
+        )
+      ).toThrow('Unknown node variable "u"');
+    });
+
+    it('should track collected values as lists', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .with((a) => ({ users: a.collect('u') }));
+
+      // Act & Assert
+      expect(() =>
+        builder.where((w) =>
+          w.eq('users.name' as unknown as Parameters<typeof w.eq>[0], 'Test')
+        )
+      ).toThrow('Cannot reference a property of the list variable "users"');
+    });
+
+    it('should throw when the aggregation was not created by the AggregateBuilder', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder().select('User', 'u');
+      const forged = {
+        cypher: '1 AS y MATCH (z) DETACH DELETE z WITH 1',
+        kind: 'value'
+      } as unknown as Aggregate;
+
+      // Act & Assert
+      expect(() => builder.with({ x: forged })).toThrow(
+        'with() requires aggregations created by the AggregateBuilder'
+      );
+      expect(() =>
+        builder.with({
+          x: new Aggregate(
+            Symbol('Aggregate') as never,
+            '1 AS y MATCH (z) DETACH DELETE z WITH 1',
+            'value'
+          )
+        })
+      ).toThrow(
+        'Aggregations can only be created through the AggregateBuilder'
+      );
+    });
+
+    it('should throw when nothing is projected', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder().select('User', 'u');
+
+      // Act & Assert
+      expect(() => builder.with({})).toThrow(
+        'with() requires at least one projected variable'
+      );
+    });
+
+    it.each([
+      ['orderBy', (b: Neo4jQueryBuilder<'u'>) => b.orderBy('u.name')],
+      ['skip', (b: Neo4jQueryBuilder<'u'>) => b.skip(10)],
+      ['limit', (b: Neo4jQueryBuilder<'u'>) => b.limit(10)]
+    ])('should throw when %s was called before', (_, modify) => {
+      // Arrange
+      const builder = modify(new Neo4jQueryBuilder().select('User', 'u'));
+
+      // Act & Assert
+      expect(() => builder.with({ u: 'u' })).toThrow(
+        'with() must be called before orderBy(), skip() or limit()'
+      );
+    });
+  });
+
+  describe('where', () => {
+    it('should add a parameterized WHERE clause after the match', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) WHERE (u.age > $u_age AND u.role IN $u_role) RETURN u';
+      const expectedParams = { u_age: 18, u_role: ['admin', 'editor'] };
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .where((w) =>
+          w.and(w.gt('u.age', 18), w.in('u.role', ['admin', 'editor']))
+        );
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it('should not reuse parameter names from the property selectors', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User {age: $u_age}) WHERE u.age <> $u_age_1 RETURN u';
+      const expectedParams = { u_age: 18, u_age_1: 21 };
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u', { age: 18 })
+        .where((w) => w.neq('u.age', 21));
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it('should support string, null and negated conditions', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) WHERE (u.name STARTS WITH $u_name OR u.email ENDS WITH $u_email OR u.bio CONTAINS $u_bio OR NOT (u.deletedAt IS NULL)) RETURN u';
+      const expectedParams = {
+        u_name: 'Jo',
+        u_email: '@example.com',
+        u_bio: 'graph'
+      };
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .where((w) =>
+          w.or(
+            w.startsWith('u.name', 'Jo'),
+            w.endsWith('u.email', '@example.com'),
+            w.contains('u.bio', 'graph'),
+            w.not(w.isNull('u.deletedAt'))
+          )
+        );
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it('should translate case-insensitive regular expressions', () => {
+      // Arrange
+      const expectedQuery = 'MATCH (u:User) WHERE u.name =~ $u_name RETURN u';
+      const expectedParams = { u_name: '(?i)^jo.*' };
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .where((w) => w.matches('u.name', /^jo.*/i));
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it('should combine consecutive where calls using AND', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) WHERE u.age >= $u_age AND u.age <= $u_age_1 RETURN u';
+      const expectedParams = { u_age: 18, u_age_1: 65 };
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .where((w) => w.gte('u.age', 18))
+        .where((w) => w.lte('u.age', 65));
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it('should filter and sort by the element ID of a node', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) WHERE elementId(u) = $u_elementId RETURN u ORDER BY elementId(u) ASC';
+      const expectedParams = { u_elementId: '4:abc:1' };
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .where((w) => w.eq('elementId(u)', '4:abc:1'))
+        .orderBy('elementId(u)');
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+      expect(params).toEqual(expectedParams);
+    });
+
+    it('should throw when referencing an unknown node variable', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder().select('User', 'u');
+
+      // Act & Assert
+      expect(() =>
+        builder.where((w) =>
+          w.eq('x.age' as unknown as Parameters<typeof w.eq>[0], 1)
+        )
+      ).toThrow('Unknown node variable "x"');
+    });
+
+    it('should throw when there is no clause to filter', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder();
+
+      // Act & Assert
+      expect(() => builder.where((w) => w.and())).toThrow(
+        'where() must follow a MATCH or WITH clause'
+      );
+    });
+
+    it('should throw when the condition was not created by the WhereBuilder', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder().select('User', 'u');
+      const forged = { cypher: 'true OR u.admin' } as unknown as WhereCondition;
+
+      // Act & Assert
+      expect(() => builder.where(() => forged)).toThrow(
+        'where() requires a condition created by the WhereBuilder'
+      );
+      expect(
+        () => new WhereCondition(Symbol('WhereCondition') as never, 'true')
+      ).toThrow('Conditions can only be created through the WhereBuilder');
+    });
+
+    it('should throw when the last clause cannot be filtered', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .set('u', { active: true });
+
+      // Act & Assert
+      expect(() => builder.where((w) => w.eq('u.age', 1))).toThrow(
+        'where() must follow a MATCH or WITH clause'
+      );
+    });
+  });
+
+  describe('join', () => {
+    it('should create a relationship between two nodes', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (car:Car {id: $car_id}) MATCH (prop:Property {type: $prop_type}) MATCH (car)-[r:RACES_AT]->(prop) RETURN car,prop';
 
       const expectedParams = { car_id: 1, prop_type: 'ai_enabled' };
 
@@ -518,5 +1480,70 @@ describe('Neo4jQueryBuilder', () => {
       expect(query).toBe(expectedQuery);
       expect(params).toEqual(expectedParams);
     });
+
+    it('should emit an OPTIONAL MATCH for a new target node', () => {
+      // Arrange
+      const expectedQuery =
+        'MATCH (u:User) OPTIONAL MATCH (u)-[r:REPORTS_TO]->(m:User) RETURN u,m';
+
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .join('u', { variable: 'm', label: 'User' }, 'from', {
+          variable: 'r',
+          label: 'REPORTS_TO',
+          optional: true
+        })
+        .customReturn('u', 'm');
+
+      // Act
+      const { query } = builder.build();
+
+      // Assert
+      expect(query).toBe(expectedQuery);
+    });
+
+    it('should track the relationship of a fixed length join as a variable', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u')
+        .select('User', 'f')
+        .join('u', 'f', 'from', { variable: 'r', label: 'KNOWS' })
+        .where((w) => w.gt('r.since', 2020));
+
+      // Act
+      const { query, params } = builder.build();
+
+      // Assert
+      expect(query).toBe(
+        'MATCH (u:User) MATCH (f:User) MATCH (u)-[r:KNOWS]->(f) WHERE r.since > $r_since RETURN u, f, r'
+      );
+      expect(params).toEqual({ r_since: 2020 });
+    });
+
+    it('should track the relationship of a variable length join as a list', () => {
+      // Arrange
+      const builder = new Neo4jQueryBuilder()
+        .select('User', 'u', { id: 1 })
+        .join('u', { variable: 'f', label: 'User' }, 'none', {
+          variable: 'path',
+          label: 'KNOWS',
+          minHops: 1,
+          maxHops: 3
+        })
+        .customReturn('f', 'path');
+
+      // Act
+      const { query } = builder.build();
+
+      // Assert
+      expect(query).toBe(
+        'MATCH (u:User {id: $u_id}) MATCH (u)-[path:KNOWS*1..3]-(f:User) RETURN f,path'
+      );
+      expect(() =>
+        builder.where((w) =>
+          w.eq('path.since' as unknown as Parameters<typeof w.eq>[0], 1)
+        )
+      ).toThrow('Cannot reference a property of the list variable "path"');
+    });
   });
 });
@@ -1,4 +1,19 @@
-import { RelationshipDirections } from './database';
+import { int } from 'neo4j-driver';
+import { Aggregate, AggregateBuilder } from './aggregate-builder';
+import {
+  assertVariable,
+  escapeIdentifier,
+  escapeLabel,
+  escapeRelationshipType
+} from './identifiers';
+import { RelationshipDirections, SortDirection } from './database';
+import { AuditPolicy, createdFields, updatedFields } from './audit';
+import {
+  PropertyReference,
+  Reference,
+  WhereBuilder,
+  WhereCondition
+} from './where-builder';
 
 type NodePropKeys = string | number | symbol;
 export type NodeSelector<
@@ -11,22 +26,127 @@ export type NodeSelector<
   properties?: Properties;
 };
 
+/**
+ * A node which is added to the query as part of a relationship pattern
+ */
+export type JoinTarget<Variable extends string> = NodeSelector<
+  string,
+  Variable
+> & { variable: Variable };
+
+/**
+ * Options for writing a node with `createNode()`
+ */
+export interface NodeWriteOptions {
+  /**
+   * Whether to always CREATE a new node or MERGE with an existing node (defaults to merge).
+   * `key` and `onMatch` cannot be used with create
+   */
+  mode?: 'create' | 'merge';
+
+  /**
+   * The properties which identify the node when merging (defaults to all properties)
+   */
+  key?: string[];
+
+  /**
+   * Properties which are only set when the node is created
+   */
+  onCreate?: Record<string, unknown>;
+
+  /**
+   * Properties which are only set when an existing node is matched
+   */
+  onMatch?: Record<string, unknown>;
+}
+
+/**
+ * The attributes of a relationship written by `createRelationship()`
+ * or `mergeRelationship()`
+ */
+export type RelationshipWriteAttributes<
+  Label extends string,
+  Variable extends string
+> = {
+  label: Label;
+  variable?: Variable;
+  properties?: Record<string, unknown>;
+};
+
+/**
+ * The variables projected through a WITH clause.  Keys are the new variable
+ * names and values are either an existing variable or an aggregation
+ */
+export type Projection<
+  Nodes extends string,
+  Lists extends string = never
+> = Record<string, Nodes | Lists | PropertyReference<Nodes> | Aggregate>;
+
+/**
+ * The projected variables which hold a list of values
+ */
+type ProjectedLists<P, Lists extends string> = {
+  [K in keyof P]: P[K] extends Aggregate<'list'>
+    ? K
+    : P[K] extends Lists
+      ? K
+      : never;
+}[keyof P] &
+  string;
+
+/**
+ * Options for creating a query builder
+ */
+export interface QueryBuilderOptions {
+  /**
+   * Audit fields written to the nodes created by `createNode()` and the
+   * variables updated by `set()` (defaults to none)
+   */
+  audit?: AuditPolicy;
+
+  /**
+   * Actor recorded in the `createdBy` and `updatedBy` audit fields
+   */
+  actor?: string;
+}
+
 const nodeVarIndex = 'abcdefghijklmnopqrstuvwxyz'.split('');
 
+const sortDirections: SortDirection[] = ['ASC', 'DESC'];
+
+/**
+ * The clauses which a WHERE clause can filter, including a previous WHERE
+ * which the new conditions are added to
+ */
+const filterableClauses = ['MATCH ', 'OPTIONAL MATCH ', 'WITH ', 'WHERE '];
+
 export class Neo4jQueryBuilder<
   Nodes extends string = never,
   Relationships extends string = never,
-  Params extends Record<string, unknown> = Record<string, unknown>
+  Params extends Record<string, unknown> = Record<string, unknown>,
+  Lists extends string = never
 > {
   private lastNodeVar = '';
   private lastNodeVarIndex = 0;
 
-  private nodes: Map<string, { nodeVar: string; label: string }> = new Map();
+  private nodes: Map<
+    string,
+    { nodeVar: string; label: string; isList?: boolean }
+  > = new Map();
   private params: Params = {} as Params;
 
   private query: string[] = [];
   private return = '';
 
+  private order: string[] = [];
+  private skipParam = '';
+  private limitParam = '';
+
+  /**
+   * @param options - The audit fields to write and the actor writing them
+   */
+  constructor(private readonly options: QueryBuilderOptions = {}) {}
+
   /**
    * Build and return the query string and parameters
    * @returns An object containing the query string and parameters
@@ -34,11 +154,31 @@ export class Neo4jQueryBuilder<
   build() {
     const nodeKeys = Array.from(this.nodes.keys());
 
+    // Ordering and paging are always placed after the RETURN clause
+    const modifiers: string[] = [];
+
+    if (this.order.length > 0) {
+      modifiers.push(`ORDER BY ${this.order.join(', ')}`);
+    }
+
+    if (this.skipParam) {
+      modifiers.push(`SKIP $${this.skipParam}`);
+    }
+
+    if (this.limitParam) {
+      modifiers.push(`LIMIT $${this.limitParam}`);
+    }
+
+    // A query which ends by deleting all of its variables has nothing to return
+    let returnClause = this.return || `RETURN ${nodeKeys.join(', ')}`;
+    if (!this.return && nodeKeys.length === 0 && this.query.length > 0) {
+      returnClause = '';
+    }
+
     return {
-      query: [
-        ...this.query,
-        this.return ? this.return : `RETURN ${nodeKeys.join(', ')}`
-      ].join(' '),
+      query: [...this.query, returnClause, ...modifiers]
+        .filter(Boolean)
+        .join(' '),
       params: this.params
     };
   }
@@ -62,9 +202,23 @@ export class Neo4jQueryBuilder<
 
     this.params = { ...this.params, ...parameters };
 
-    return [nodeVar, label ? `:${label}` : '', parameterizedString].join('');
+    return [
+      assertVariable(nodeVar),
+      label ? `:${escapeLabel(label)}` : '',
+      parameterizedString
+    ].join('');
   }
 
+  /**
+   * Build a Cypher relationship pattern between two nodes
+   * @param source The source node selector
+   * @param target The target node selector
+   * @param direction The direction of the relationship (from, to, both, none)
+   * @param attributes Optional variable, label, properties and hop range for the relationship.
+   *  When `minHops` or `maxHops` is provided, the relationship is variable length and
+   *  its variable is tracked as a list
+   * @returns A string representation of the relationship pattern
+   */
   buildRelationshipReference<
     SourceRef extends Partial<NodeSelector<string, Nodes>>,
     TargetRef extends Partial<NodeSelector<string, Nodes>>,
@@ -72,6 +226,8 @@ export class Neo4jQueryBuilder<
       variable: string;
       label: string;
       properties: Record<string, unknown>;
+      minHops: number;
+      maxHops: number;
     }
   >(
     source: SourceRef,
@@ -87,15 +243,24 @@ export class Neo4jQueryBuilder<
     let relationshipPattern = '';
 
     const relationshipVar = this.generateNodeVar(attributes.variable);
+    const hopRange = this.buildHopRange(attributes.minHops, attributes.maxHops);
 
-    if (attributes.label || attributes.variable) {
-      const relationshipRef = this.buildNodeReference(
-        relationshipVar,
-        attributes.label,
-        attributes.properties
-      );
+    if (attributes.label || attributes.variable || hopRange) {
+      const { parameterizedString, parameters } =
+        this.generatePropertySelectors(
+          relationshipVar,
+          attributes.properties ?? {}
+        );
 
-      relationshipPattern = `[${relationshipRef}]`;
+      this.params = { ...this.params, ...parameters };
+
+      // Format: [variable:LABEL*min..max {properties}]
+      relationshipPattern = `[${[
+        relationshipVar,
+        attributes.label ? `:${escapeRelationshipType(attributes.label)}` : '',
+        hopRange,
+        parameterizedString
+      ].join('')}]`;
     }
 
     // Determine the arrow direction based on the direction parameter
@@ -118,84 +283,298 @@ export class Neo4jQueryBuilder<
     if (relationshipPattern) {
       this.nodes.set(relationshipVar, {
         nodeVar: relationshipVar,
-        label: attributes.label ?? ''
+        label: attributes.label ?? '',
+        isList: hopRange !== ''
       });
     }
 
     return `${sourceRef}${arrowDirection}${targetRef}`;
   }
 
-  createNode<NewNode extends Nodes>(
+  /**
+   * Add a CREATE or MERGE clause for a new node.  By default the node is
+   * merged using all of the properties as the merge key.  Use `key` to merge
+   * on a subset of the properties, in which case the remaining properties are
+   * set when the node is created or matched.  The audit fields of the builder
+   * are stamped when the node is created or matched.
+   * @param label The node label
+   * @param properties The properties of the node
+   * @param variable Optional variable name for the node
+   * @param options Optional write mode, merge key and properties to set on create or match
+   * @returns The QueryBuilder instance for chaining
+   * @throws Error if the merge key is not one of the properties, or `key` or `onMatch` are used in create mode
+   * @example
+   * // MERGE (u:User {email: $u_email}) ON CREATE SET u += $u_on_create ON MATCH SET u += $u_on_match
+   * builder.createNode('User', { email, name }, 'u', {
+   *   key: ['email'],
+   *   onCreate: { createdAt }
+   * })
+   */
+  createNode<NewNode extends string = never>(
     label: string,
     properties: Record<string, unknown> = {},
-    variable?: NewNode
+    variable?: NewNode,
+    options: NodeWriteOptions = {}
   ) {
+    const { mode = 'merge', onCreate = {}, onMatch = {} } = options;
+
+    if (mode === 'create' && (options.key || options.onMatch)) {
+      throw new Error('key and onMatch can only be used to merge a node');
+    }
+
+    const { created, updated } = this.auditFields();
+
     const nodeVar = this.generateNodeVar(variable);
     this.nodes.set(nodeVar, { nodeVar, label });
 
-    this.query.push(
-      `MERGE (${this.buildNodeReference(nodeVar, label, properties)})`
-    );
+    if (mode === 'create') {
+      this.query.push(
+        `CREATE (${this.buildNodeReference(nodeVar, label, { ...properties, ...onCreate, ...created })})`
+      );
+    } else {
+      // Split the properties into the merge key and the properties
+      // which should be written after the node is created or matched
+      const key = options.key ?? Object.keys(properties);
+      const keyProperties: Record<string, unknown> = {};
+      const otherProperties: Record<string, unknown> = {};
+
+      for (const property of key) {
+        if (!(property in properties)) {
+          throw new Error(
+            `Merge key "${property}" is not one of the node properties`
+          );
+        }
+      }
+
+      for (const [property, value] of Object.entries(properties)) {
+        if (key.includes(property)) {
+          keyProperties[property] = value;
+        } else {
+          otherProperties[property] = value;
+        }
+      }
+
+      this.query.push(
+        [
+          `MERGE (${this.buildNodeReference(nodeVar, label, keyProperties)})`,
+          ...this.buildMergeActions(
+            nodeVar,
+            { ...otherProperties, ...onCreate, ...created },
+            { ...otherProperties, ...onMatch, ...updated }
+          )
+        ].join(' ')
+      );
+    }
 
     return this as unknown as Neo4jQueryBuilder<
       Nodes | NewNode,
       Relationships,
-      Params
+      Params,
+      Lists
     >;
   }
 
+  /**
+   * Create a relationship between two nodes which are tracked by the builder.
+   * The direction must be either `from` or `to` since Neo4j only stores
+   * directed relationships.
+   * @param sourceNode The variable name of the source node
+   * @param targetNode The variable name of the target node
+   * @param direction The direction of the relationship (from, to)
+   * @param attributes The label, optional variable and properties of the relationship
+   * @returns The QueryBuilder instance for chaining
+   */
+  createRelationship<
+    Source extends Nodes,
+    Target extends Nodes,
+    Relationship extends string,
+    NodeVar extends string = never
+  >(
+    sourceNode: Source,
+    targetNode: Target,
+    direction: RelationshipDirections,
+    attributes: RelationshipWriteAttributes<Relationship, NodeVar>
+  ) {
+    if (direction !== 'from' && direction !== 'to') {
+      throw new Error('createRelationship() requires a from or to direction');
+    }
+
+    return this.writeRelationship(
+      'CREATE',
+      sourceNode,
+      targetNode,
+      direction,
+      attributes
+    );
+  }
+
   /**
    * Add a custom RETURN clause to the query
    * @param nodes The node variables to return
    * @returns The QueryBuilder instance for chaining
    */
-  customReturn<SelectedNodes extends Nodes>(...nodes: SelectedNodes[]) {
-    this.return = `RETURN ${nodes.join(',')}`;
+  customReturn<SelectedNodes extends Nodes | Lists>(...nodes: SelectedNodes[]) {
+    this.return = `RETURN ${nodes.map(assertVariable).join(',')}`;
     return this;
   }
 
+  /**
+   * Delete nodes or relationships from the database.  The deleted
+   * variables are no longer tracked by the builder.
+   * @param variables The node or relationship variables to delete
+   * @returns The QueryBuilder instance for chaining
+   */
+  delete<Deleted extends Nodes>(...variables: Deleted[]) {
+    return this.deleteVariables('DELETE', variables);
+  }
+
+  /**
+   * Delete nodes along with all of their relationships.  The deleted
+   * variables are no longer tracked by the builder.
+   * @param variables The node variables to delete
+   * @returns The QueryBuilder instance for chaining
+   */
+  detachDelete<Deleted extends Nodes>(...variables: Deleted[]) {
+    return this.deleteVariables('DETACH DELETE', variables);
+  }
+
   /**
    * Creates a relationship between two nodes in the query
    * @param sourceNode The variable name of the source node
-   * @param targetNode The variable name of the target node
+   * @param targetNode The variable name of the target node, or a selector for a new node to match
    * @param direction The direction of the relationship (from, to, both, none)
-   * @param relationshipType Optional type/label for the relationship
+   * @param attributes Optional label, variable and properties for the relationship.
+   *  Use `minHops`/`maxHops` for variable length relationships and `optional`
+   *  to emit an OPTIONAL MATCH
    * @returns The QueryBuilder instance for chaining
+   * @example
+   * // MATCH (u:User) OPTIONAL MATCH (u)-[:REPORTS_TO]->(m:User) RETURN u, m
+   * builder
+   *   .select('User', 'u')
+   *   .join('u', { variable: 'm', label: 'User' }, 'from', {
+   *     label: 'REPORTS_TO',
+   *     optional: true
+   *   })
    */
   join<
     Source extends Nodes,
     Target extends Nodes,
-    Relationship extends string,
-    NodeVar extends string
+    Relationship extends string = never,
+    NodeVar extends string = never,
+    NewNode extends string = never,
+    MinHops extends number = never,
+    MaxHops extends number = never
   >(
     sourceNode: Source,
-    targetNode: Target,
+    targetNode: Target | JoinTarget<NewNode>,
     direction: RelationshipDirections = 'none',
-    attributes?: Partial<{
+    attributes: Partial<{
       label: Relationship;
       variable: NodeVar;
       properties: Record<string, unknown>;
-    }>
+      minHops: MinHops;
+      maxHops: MaxHops;
+      optional: boolean;
+    }> = {}
   ) {
+    const { optional, ...relationship } = attributes;
+
+    // When the target is a selector, the node is introduced by this pattern
+    // so it needs to be tracked like a selected node
+    let target: Partial<NodeSelector<string, string>> = {
+      variable: targetNode as string
+    };
+
+    if (typeof targetNode !== 'string') {
+      const nodeVar = this.generateNodeVar(targetNode.variable);
+      target = { ...targetNode, variable: nodeVar };
+
+      this.nodes.set(nodeVar, { nodeVar, label: targetNode.label ?? '' });
+    }
+
     // Build the relationship reference
     const queryStr = this.buildRelationshipReference(
       { variable: sourceNode },
-      { variable: targetNode },
+      target as Partial<NodeSelector<string, Nodes>>,
       direction,
-      attributes
+      relationship
     );
 
     // Add the MATCH statement to the query array
     // Format: MATCH (source)-[relationship]->(target)
-    this.query.push(`MATCH ${queryStr}`);
+    this.query.push(`${optional ? 'OPTIONAL MATCH' : 'MATCH'} ${queryStr}`);
+
+    // Variable length relationships bind a list of relationships
+    // so they are tracked separately from the other variables
+    type IsList = [MinHops | MaxHops] extends [never] ? false : true;
 
     return this as unknown as Neo4jQueryBuilder<
-      Nodes,
+      Nodes | NewNode | (IsList extends true ? never : NodeVar),
       Relationships | Relationship,
-      Params
+      Params,
+      Lists | (IsList extends true ? NodeVar : never)
     >;
   }
 
+  /**
+   * Limit the number of rows returned by the query
+   * @param count The maximum number of rows to return
+   * @returns The QueryBuilder instance for chaining
+   */
+  limit(count: number) {
+    this.limitParam = this.setPagingParameter(this.limitParam, 'limit', count);
+    return this;
+  }
+
+  /**
+   * Merge a relationship between two nodes which are tracked by the builder.
+   * The properties are used as the merge key, while `onCreate` and `onMatch`
+   * are only set when the relationship is created or matched.
+   * @param sourceNode The variable name of the source node
+   * @param targetNode The variable name of the target node
+   * @param direction The direction of the relationship (from, to, both, none)
+   * @param attributes The label, optional variable and properties of the relationship
+   * @returns The QueryBuilder instance for chaining
+   */
+  mergeRelationship<
+    Source extends Nodes,
+    Target extends Nodes,
+    Relationship extends string,
+    NodeVar extends string = never
+  >(
+    sourceNode: Source,
+    targetNode: Target,
+    direction: RelationshipDirections,
+    attributes: RelationshipWriteAttributes<Relationship, NodeVar> &
+      Pick<NodeWriteOptions, 'onCreate' | 'onMatch'>
+  ) {
+    return this.writeRelationship(
+      'MERGE',
+      sourceNode,
+      targetNode,
+      direction,
+      attributes
+    );
+  }
+
+  /**
+   * Sort the returned rows by a node variable or property.  Calling `orderBy()`
+   * multiple times adds additional sort keys.
+   * @param reference The node variable or property to sort by (e.g. `u.name`)
+   * @param direction The sort direction (defaults to ASC)
+   * @returns The QueryBuilder instance for chaining
+   * @throws Error if the direction is not ASC or DESC
+   */
+  orderBy(reference: Reference<Nodes>, direction: SortDirection = 'ASC') {
+    // The direction often comes from user input, so it is checked at runtime
+    if (!sortDirections.includes(direction)) {
+      throw new Error('Sort direction must be ASC or DESC');
+    }
+
+    this.order.push(`${this.resolveReference(reference)} ${direction}`);
+    return this;
+  }
+
   /**
    * Debug method to log the current query and parameters
    * Only logs in non-production environments
@@ -211,6 +590,36 @@ export class Neo4jQueryBuilder<
     return this;
   }
 
+  /**
+   * Remove properties and labels from a node
+   * @param nodeVar The variable of the node to update
+   * @param attributes The property names and labels to remove
+   * @returns The QueryBuilder instance for chaining
+   */
+  remove<Variable extends Nodes>(
+    nodeVar: Variable,
+    {
+      properties = [],
+      labels = []
+    }: { properties?: string[]; labels?: string[] }
+  ) {
+    this.resolveReference(nodeVar);
+
+    const items = properties.map(
+      (property) => `${nodeVar}.${escapeIdentifier(property)}`
+    );
+    if (labels.length > 0) {
+      items.push(`${nodeVar}:${labels.map(escapeIdentifier).join(':')}`);
+    }
+
+    if (items.length === 0) {
+      throw new Error('remove() requires at least one property or label');
+    }
+
+    this.query.push(`REMOVE ${items.join(', ')}`);
+    return this;
+  }
+
   /**
    * Add a MATCH clause for a node with the given label
    * @param label The node label
@@ -231,7 +640,344 @@ export class Neo4jQueryBuilder<
     return this as unknown as Neo4jQueryBuilder<
       Nodes | Node,
       Relationships,
-      Params & Filter
+      Params & Filter,
+      Lists
+    >;
+  }
+
+  /**
+   * Set properties and labels on a node or relationship.  By default the
+   * properties are merged into the existing properties (`+=`), use `replace`
+   * to overwrite all of the existing properties (`=`).  The updated audit
+   * fields of the builder are set along with the properties, and the
+   * created audit fields are kept when the properties are replaced.
+   * @param nodeVar The variable of the node or relationship to update
+   * @param properties The properties to set
+   * @param options Optional flag to replace the properties and labels to add
+   * @returns The QueryBuilder instance for chaining
+   */
+  set<Variable extends Nodes>(
+    nodeVar: Variable,
+    properties: Record<string, unknown> = {},
+    {
+      replace = false,
+      labels = []
+    }: { replace?: boolean; labels?: string[] } = {}
+  ) {
+    this.resolveReference(nodeVar);
+
+    const items: string[] = [];
+    const values = { ...properties, ...this.auditFields().updated };
+
+    // Replacing the properties would also remove the created audit
+    // fields, so they are copied over before the new properties are added
+    const kept = replace ? this.createdAuditProperties() : [];
+
+    // Without the replace flag, an empty property map would be a no-op
+    if (kept.length > 0) {
+      const paramKey = this.addParameter(`${nodeVar}_set`, values);
+      const projection = kept
+        .map((property) => `.${escapeIdentifier(property)}`)
+        .join(', ');
+
+      items.push(
+        `${nodeVar} = ${nodeVar} {${projection}}`,
+        `${nodeVar} += $${paramKey}`
+      );
+    } else if (replace || Object.keys(values).length > 0) {
+      const paramKey = this.addParameter(`${nodeVar}_set`, values);
+      items.push(`${nodeVar} ${replace ? '=' : '+='} $${paramKey}`);
+    }
+
+    if (labels.length > 0) {
+      items.push(`${nodeVar}:${labels.map(escapeIdentifier).join(':')}`);
+    }
+
+    if (items.length === 0) {
+      throw new Error('set() requires at least one property or label');
+    }
+
+    this.query.push(`SET ${items.join(', ')}`);
+    return this;
+  }
+
+  /**
+   * Skip a number of rows before returning results
+   * @param count The number of rows to skip
+   * @returns The QueryBuilder instance for chaining
+   */
+  skip(count: number) {
+    this.skipParam = this.setPagingParameter(this.skipParam, 'skip', count);
+    return this;
+  }
+
+  /**
+   * Add a WHERE clause to the previous MATCH statement.  Calling `where()`
+   * multiple times in a row combines the conditions using AND.
+   * @param condition A callback which receives a WhereBuilder and returns the condition
+   * @returns The QueryBuilder instance for chaining
+   * @throws Error if the last clause cannot be filtered or the condition was not created by the WhereBuilder
+   * @example
+   * builder.where((w) => w.and(w.gt('u.age', 18), w.in('u.role', roles)))
+   */
+  where(condition: (where: WhereBuilder<Nodes>) => WhereCondition) {
+    const lastClause = this.query[this.query.length - 1] ?? '';
+
+    if (!filterableClauses.some((clause) => lastClause.startsWith(clause))) {
+      throw new Error('where() must follow a MATCH or WITH clause');
+    }
+
+    const compiled = condition(
+      new WhereBuilder<Nodes>(
+        (reference) => this.resolveReference(reference),
+        (name, value) => this.addParameter(name, value)
+      )
+    );
+
+    if (!(compiled instanceof WhereCondition)) {
+      throw new Error(
+        'where() requires a condition created by the WhereBuilder'
+      );
+    }
+
+    const { cypher } = compiled;
+
+    const lastIndex = this.query.length - 1;
+    if (this.query[lastIndex].startsWith('WHERE ')) {
+      this.query[lastIndex] = `${this.query[lastIndex]} AND ${cypher}`;
+    } else {
+      this.query.push(`WHERE ${cypher}`);
+    }
+
+    return this;
+  }
+
+  /**
+   * Add a WITH clause which projects variables and aggregations into the next
+   * part of the query.  Only the projected variables remain in scope afterwards,
+   * so later clauses can only reference what is still tracked by the builder.
+   * @param projection The variables to project, or a callback which receives an AggregateBuilder
+   * @returns The QueryBuilder instance for chaining
+   * @throws Error if orderBy(), skip() or limit() were already called
+   * @throws Error if an aggregation was not created by the AggregateBuilder
+   * @example
+   * // MATCH (u:User)-[a:WROTE]->(p:Post) WITH u, count(p) AS total RETURN u, total
+   * builder.with((a) => ({ u: 'u', total: a.count('p') }))
+   */
+  with<P extends Projection<Nodes, Lists>>(
+    projection: P | ((aggregate: AggregateBuilder<Nodes>) => P)
+  ) {
+    if (this.order.length > 0 || this.skipParam || this.limitParam) {
+      throw new Error(
+        'with() must be called before orderBy(), skip() or limit()'
+      );
+    }
+
+    const projected =
+      typeof projection === 'function'
+        ? projection(
+            new AggregateBuilder<Nodes>((reference) =>
+              this.resolveReference(reference)
+            )
+          )
+        : projection;
+
+    const aliases = Object.entries(projected);
+    if (aliases.length === 0) {
+      throw new Error('with() requires at least one projected variable');
+    }
+
+    const items: string[] = [];
+    const nodes: typeof this.nodes = new Map();
+
+    for (const [alias, value] of aliases) {
+      assertVariable(alias);
+
+      if (value instanceof Aggregate) {
+        items.push(`${value.cypher} AS ${alias}`);
+        nodes.set(alias, {
+          nodeVar: alias,
+          label: '',
+          isList: value.kind === 'list'
+        });
+        continue;
+      }
+
+      if (typeof value !== 'string') {
+        throw new Error(
+          'with() requires aggregations created by the AggregateBuilder'
+        );
+      }
+
+      // Projected variables keep their label, while projected
+      // properties become plain values
+      const expression = this.resolveReference(value);
+      const existing = value.includes('.')
+        ? undefined
+        : this.nodes.get(expression);
+
+      items.push(value === alias ? alias : `${expression} AS ${alias}`);
+      nodes.set(alias, {
+        nodeVar: alias,
+        label: existing?.label ?? '',
+        isList: existing?.isList
+      });
+    }
+
+    this.query.push(`WITH ${items.join(', ')}`);
+    this.nodes = nodes;
+
+    return this as unknown as Neo4jQueryBuilder<
+      Exclude<keyof P & string, ProjectedLists<P, Lists>>,
+      Relationships,
+      Params,
+      ProjectedLists<P, Lists>
+    >;
+  }
+
+  /**
+   * Store a value in the query parameters using a unique parameter name
+   * @param name The preferred name of the parameter
+   * @param value The value of the parameter
+   * @returns The name the parameter was stored under
+   * @private
+   */
+  private addParameter(name: string, value: unknown) {
+    let paramKey = name;
+
+    // Similar to the node variables, we add an index suffix when
+    // the parameter name is already in use
+    for (let index = 1; paramKey in this.params; index++) {
+      paramKey = `${name}_${index}`;
+    }
+
+    this.params = { ...this.params, [paramKey]: value };
+
+    return paramKey;
+  }
+
+  /**
+   * Get the properties holding when and by whom a node was created
+   * @returns The property names, empty when they are not audited
+   * @private
+   */
+  private createdAuditProperties() {
+    const { audit } = this.options;
+
+    if (!audit) {
+      return [];
+    }
+
+    return [audit.createdAt, audit.createdBy].filter(
+      (property): property is string => property !== false
+    );
+  }
+
+  /**
+   * Get the audit fields to write when a node is created or updated
+   * @returns The created and updated audit fields, empty without an audit policy
+   * @private
+   */
+  private auditFields() {
+    const { audit, actor } = this.options;
+
+    if (!audit) {
+      return { created: {}, updated: {} };
+    }
+
+    const now = new Date();
+
+    return {
+      created: createdFields(audit, actor, now),
+      updated: updatedFields(audit, actor, now)
+    };
+  }
+
+  /**
+   * Build the ON CREATE and ON MATCH actions for a MERGE clause
+   * @param variable The variable of the merged node or relationship
+   * @param onCreate The properties to set when created
+   * @param onMatch The properties to set when matched
+   * @returns The list of merge actions
+   * @private
+   */
+  private buildMergeActions(
+    variable: string,
+    onCreate: Record<string, unknown>,
+    onMatch: Record<string, unknown>
+  ) {
+    const actions: string[] = [];
+
+    if (Object.keys(onCreate).length > 0) {
+      const paramKey = this.addParameter(`${variable}_on_create`, onCreate);
+      actions.push(`ON CREATE SET ${variable} += $${paramKey}`);
+    }
+
+    if (Object.keys(onMatch).length > 0) {
+      const paramKey = this.addParameter(`${variable}_on_match`, onMatch);
+      actions.push(`ON MATCH SET ${variable} += $${paramKey}`);
+    }
+
+    return actions;
+  }
+
+  /**
+   * Build the hop range for a variable length relationship
+   * @param minHops The minimum number of hops
+   * @param maxHops The maximum number of hops
+   * @returns The hop range (e.g. `*1..3`) or an empty string when neither is provided
+   * @throws Error if the hops are not non-negative integers or min is greater than max
+   * @private
+   */
+  private buildHopRange(minHops?: number, maxHops?: number) {
+    if (minHops === undefined && maxHops === undefined) {
+      return '';
+    }
+
+    for (const hops of [minHops, maxHops]) {
+      if (hops !== undefined && (!Number.isInteger(hops) || hops < 0)) {
+        throw new Error('Relationship hops must be non-negative integers');
+      }
+    }
+
+    if (minHops !== undefined && maxHops !== undefined && minHops > maxHops) {
+      throw new Error('minHops cannot be greater than maxHops');
+    }
+
+    return `*${minHops ?? ''}..${maxHops ?? ''}`;
+  }
+
+  /**
+   * Add a DELETE clause and stop tracking the deleted variables
+   * @param clause The delete clause to use
+   * @param variables The variables to delete
+   * @returns The QueryBuilder instance for chaining
+   * @throws Error if no variables are provided
+   * @private
+   */
+  private deleteVariables<Deleted extends Nodes>(
+    clause: 'DELETE' | 'DETACH DELETE',
+    variables: Deleted[]
+  ) {
+    if (variables.length === 0) {
+      throw new Error(`${clause} requires at least one variable`);
+    }
+
+    for (const variable of variables) {
+      this.resolveReference(variable);
+    }
+
+    this.query.push(`${clause} ${variables.join(', ')}`);
+
+    for (const variable of variables) {
+      this.nodes.delete(variable);
+    }
+
+    return this as unknown as Neo4jQueryBuilder<
+      Exclude<Nodes, Deleted>,
+      Relationships,
+      Params,
+      Lists
     >;
   }
 
@@ -244,6 +990,10 @@ export class Neo4jQueryBuilder<
   private generateNodeVar(variable?: string) {
     let nodeVar = variable;
 
+    if (nodeVar) {
+      assertVariable(nodeVar);
+    }
+
     // When the node variable is not provided, we need to generate it
     if (!nodeVar) {
       // The node name will be a concatenation of a prefix and the next letter in the alphabet.
@@ -317,7 +1067,9 @@ export class Neo4jQueryBuilder<
       const paramKey = `${nodeVar}_${sanitizedKey}`;
 
       params[paramKey] = value;
-      parameterizedStrArr.push(`${key}: $${paramKey}`);
+      parameterizedStrArr.push(
+        `${escapeIdentifier(key.toString())}: $${paramKey}`
+      );
     }
 
     return {
@@ -326,6 +1078,137 @@ export class Neo4jQueryBuilder<
     };
   }
 
+  /**
+   * Validate that a reference (e.g. `u`, `u.age` or `elementId(u)`) points
+   * to a node variable which is tracked by the builder
+   * @param reference The variable, property or element ID reference
+   * @returns The reference as a Cypher expression
+   * @throws Error if the node variable is not part of the query
+   * @throws InvalidIdentifierError if the property name is invalid
+   * @private
+   */
+  private resolveReference(reference: string) {
+    const elementId = /^elementId\((.*)\)$/.exec(reference);
+    if (elementId) {
+      const nodeVar = elementId[1];
+      const node = this.nodes.get(nodeVar);
+
+      if (!node) {
+        throw new Error(
+          `Unknown node variable "${nodeVar}" in reference "${reference}"`
+        );
+      }
+
+      if (node.isList) {
+        throw new Error(
+          `Cannot reference the element ID of the list variable "${nodeVar}"`
+        );
+      }
+
+      return `elementId(${nodeVar})`;
+    }
+
+    const separator = reference.indexOf('.');
+    const nodeVar =
+      separator === -1 ? reference : reference.slice(0, separator);
+    const property =
+      separator === -1 ? undefined : reference.slice(separator + 1);
+
+    if (!this.nodes.has(nodeVar)) {
+      throw new Error(
+        `Unknown node variable "${nodeVar}" in reference "${reference}"`
+      );
+    }
+
+    if (property !== undefined && this.nodes.get(nodeVar)?.isList) {
+      throw new Error(
+        `Cannot reference a property of the list variable "${nodeVar}"`
+      );
+    }
+
+    return property === undefined
+      ? nodeVar
+      : `${nodeVar}.${escapeIdentifier(property)}`;
+  }
+
+  /**
+   * Store a SKIP or LIMIT value as a Neo4j integer parameter.  When the
+   * parameter already exists, its value is replaced.
+   * @param paramKey The existing parameter name (empty when not yet set)
+   * @param name The preferred name of the parameter
+   * @param count The value of the parameter
+   * @returns The name the parameter was stored under
+   * @throws Error if the count is not a non-negative integer
+   * @private
+   */
+  private setPagingParameter(paramKey: string, name: string, count: number) {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`${name} must be a non-negative integer`);
+    }
+
+    if (!paramKey) {
+      return this.addParameter(name, int(count));
+    }
+
+    this.params = { ...this.params, [paramKey]: int(count) };
+    return paramKey;
+  }
+
+  /**
+   * Add a CREATE or MERGE clause for a relationship between two tracked nodes
+   * @param clause The write clause to use
+   * @param sourceNode The variable name of the source node
+   * @param targetNode The variable name of the target node
+   * @param direction The direction of the relationship
+   * @param attributes The label, variable, properties and merge actions of the relationship
+   * @returns The QueryBuilder instance for chaining
+   * @private
+   */
+  private writeRelationship<
+    Relationship extends string,
+    NodeVar extends string
+  >(
+    clause: 'CREATE' | 'MERGE',
+    sourceNode: Nodes,
+    targetNode: Nodes,
+    direction: RelationshipDirections,
+    attributes: RelationshipWriteAttributes<Relationship, NodeVar> &
+      Pick<NodeWriteOptions, 'onCreate' | 'onMatch'>
+  ) {
+    const { onCreate = {}, onMatch = {}, ...relationship } = attributes;
+
+    if (!relationship.label) {
+      throw new Error(`${clause} requires a relationship label`);
+    }
+
+    this.resolveReference(sourceNode);
+    this.resolveReference(targetNode);
+
+    // Generate the variable up front since the merge actions need to reference it
+    const relationshipVar = this.generateNodeVar(relationship.variable);
+
+    const queryStr = this.buildRelationshipReference(
+      { variable: sourceNode },
+      { variable: targetNode },
+      direction,
+      { ...relationship, variable: relationshipVar }
+    );
+
+    this.query.push(
+      [
+        `${clause} ${queryStr}`,
+        ...this.buildMergeActions(relationshipVar, onCreate, onMatch)
+      ].join(' ')
+    );
+
+    return this as unknown as Neo4jQueryBuilder<
+      Nodes | NodeVar,
+      Relationships | Relationship,
+      Params,
+      Lists
+    >;
+  }
+
   /**
    * Extract a list of nodes that have the same starting values as
    * the provided node variable.  This can be used to determine how
@@ -0,0 +1,144 @@
+import { ConfigurationError } from './errors';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+  withRetry
+} from './retry';
+
+const transientError = (code: string) =>
+  Object.assign(new Error('Transient failure'), { code });
+
+describe('retry', () => {
+  describe('resolveRetryPolicy', () => {
+    it('should use the defaults when nothing is configured', () => {
+      // Act
+      const policy = resolveRetryPolicy();
+
+      // Assert
+      expect(policy).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should override the defaults with the provided settings', () => {
+      // Act
+      const policy = resolveRetryPolicy({ maxAttempts: 5, jitter: 0 });
+
+      // Assert
+      expect(policy).toEqual({
+        ...DEFAULT_RETRY_POLICY,
+        maxAttempts: 5,
+        jitter: 0
+      });
+    });
+
+    it.each([
+      ['no attempts', { maxAttempts: 0 }, 'retry.maxAttempts'],
+      ['a fractional attempt count', { maxAttempts: 1.5 }, 'retry.maxAttempts'],
+      ['a negative delay', { initialDelay: -1 }, 'retry.initialDelay'],
+      ['an infinite maximum delay', { maxDelay: Infinity }, 'retry.maxDelay'],
+      ['a shrinking multiplier', { multiplier: 0.5 }, 'retry.multiplier'],
+      ['too much jitter', { jitter: 1.5 }, 'retry.jitter']
+    ])('should reject %s', (_description, policy, setting) => {
+      // Act & Assert
+      expect(() => resolveRetryPolicy(policy)).toThrow(ConfigurationError);
+      expect(() => resolveRetryPolicy(policy)).toThrow(`"${setting}"`);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it.each([
+      ['ServiceUnavailable', true],
+      ['SessionExpired', true],
+      ['Neo.TransientError.Transaction.DeadlockDetected', true],
+      ['Neo.TransientError.General.DatabaseUnavailable', true],
+      ['Neo.ClientError.Cluster.NotALeader', true],
+      ['Neo.ClientError.General.ForbiddenOnReadOnlyDatabase', true],
+      ['Neo.TransientError.Transaction.Terminated', false],
+      ['Neo.TransientError.Transaction.LockClientStopped', false],
+      ['Neo.ClientError.Statement.SyntaxError', false],
+      ['Neo.ClientError.Schema.ConstraintValidationFailed', false]
+    ])('should classify %s as retryable: %s', (code, expected) => {
+      // Act & Assert
+      expect(isRetryableError(transientError(code))).toBe(expected);
+    });
+
+    it('should not retry errors without a code', () => {
+      // Act & Assert
+      expect(isRetryableError(new Error('Unexpected'))).toBe(false);
+      expect(isRetryableError(null)).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+
+    it.each([
+      [1, 100],
+      [2, 200],
+      [3, 400],
+      [10, 5000]
+    ])('should back off exponentially for attempt %s', (attempt, expected) => {
+      // Act & Assert
+      expect(getRetryDelay(policy, attempt)).toBe(expected);
+    });
+
+    it('should spread the delay by the jitter', () => {
+      // Arrange
+      const jittered = { ...policy, jitter: 0.5 };
+
+      // Act & Assert
+      expect(getRetryDelay(jittered, 1, () => 0)).toBe(50);
+      expect(getRetryDelay(jittered, 1, () => 1)).toBe(150);
+    });
+  });
+
+  describe('withRetry', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, initialDelay: 0, maxDelay: 0 };
+
+    it('should retry transient errors until the operation succeeds', async () => {
+      // Arrange
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(transientError('ServiceUnavailable'))
+        .mockResolvedValueOnce('result');
+      const onRetry = jest.fn();
+
+      // Act
+      const result = await withRetry(operation, policy, onRetry);
+
+      // Assert
+      expect(result).toBe('result');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 0);
+    });
+
+    it('should throw the last error once the attempts are exhausted', async () => {
+      // Arrange
+      const operation = jest
+        .fn()
+        .mockRejectedValue(
+          transientError('Neo.TransientError.Transaction.DeadlockDetected')
+        );
+
+      // Act & Assert
+      await expect(withRetry(operation, policy)).rejects.toThrow(
+        'Transient failure'
+      );
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry errors which are not transient', async () => {
+      // Arrange
+      const operation = jest
+        .fn()
+        .mockRejectedValue(
+          transientError('Neo.ClientError.Statement.SyntaxError')
+        );
+
+      // Act & Assert
+      await expect(withRetry(operation, policy)).rejects.toThrow();
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { ConfigurationError } from './errors';
+
+/**
+ * Controls how failed queries are retried
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of times the query is attempted, including the first attempt (default: 3)
+   */
+  maxAttempts: number;
+
+  /**
+   * Milliseconds to wait before the first retry (default: 100)
+   */
+  initialDelay: number;
+
+  /**
+   * Maximum milliseconds to wait between attempts (default: 5000)
+   */
+  maxDelay: number;
+
+  /**
+   * Factor the delay is multiplied by after each attempt (default: 2)
+   */
+  multiplier: number;
+
+  /**
+   * Fraction of the delay which is randomized, between 0 and 1 (default: 0.2)
+   */
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 100,
+  maxDelay: 5000,
+  multiplier: 2,
+  jitter: 0.2
+};
+
+/**
+ * Codes of the driver and server errors which can succeed when retried
+ */
+const retryableCodes = [
+  'ServiceUnavailable',
+  'SessionExpired',
+  'Neo.ClientError.Cluster.NotALeader',
+  'Neo.ClientError.General.ForbiddenOnReadOnlyDatabase'
+];
+
+/**
+ * Codes of transient errors which are caused by the client and will not
+ * succeed when retried
+ */
+const nonRetryableTransientCodes = [
+  'Neo.TransientError.Transaction.Terminated',
+  'Neo.TransientError.Transaction.LockClientStopped'
+];
+
+/**
+ * Merge a partial retry policy with the defaults and validate the result
+ * @param policy The retry settings to override
+ * @returns The complete retry policy
+ * @throws ConfigurationError if a setting is invalid
+ */
+export function resolveRetryPolicy(
+  policy: Partial<RetryPolicy> = {}
+): RetryPolicy {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy };
+
+  if (!Number.isInteger(resolved.maxAttempts) || resolved.maxAttempts <= 0) {
+    throw new ConfigurationError(
+      'retry.maxAttempts',
+      'must be a positive integer'
+    );
+  }
+
+  for (const setting of ['initialDelay', 'maxDelay'] as const) {
+    if (!Number.isFinite(resolved[setting]) || resolved[setting] < 0) {
+      throw new ConfigurationError(
+        `retry.${setting}`,
+        'must be a non-negative number'
+      );
+    }
+  }
+
+  if (!Number.isFinite(resolved.multiplier) || resolved.multiplier < 1) {
+    throw new ConfigurationError(
+      'retry.multiplier',
+      'must be greater than or equal to 1'
+    );
+  }
+
+  if (
+    !Number.isFinite(resolved.jitter) ||
+    resolved.jitter < 0 ||
+    resolved.jitter > 1
+  ) {
+    throw new ConfigurationError('retry.jitter', 'must be between 0 and 1');
+  }
+
+  return resolved;
+}
+
+/**
+ * Check if an error is a transient Neo4j error, such as a deadlock,
+ * a leader switch or an unavailable server, which can succeed when retried
+ * @param error The error thrown by the driver
+ * @returns True if the query can be retried
+ */
+export function isRetryableError(error: unknown) {
+  const code = (error as { code?: unknown } | null)?.code;
+
+  if (typeof code !== 'string') {
+    return false;
+  }
+
+  if (retryableCodes.includes(code)) {
+    return true;
+  }
+
+  return (
+    code.startsWith('Neo.TransientError.') &&
+    !nonRetryableTransientCodes.includes(code)
+  );
+}
+
+/**
+ * Calculate how long to wait before retrying, using exponential
+ * backoff with jitter so that clients do not retry in lockstep
+ * @param policy The retry policy
+ * @param attempt The number of the attempt which failed, starting at 1
+ * @param random Source of randomness between 0 and 1
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+) {
+  const delay = Math.min(
+    policy.initialDelay * policy.multiplier ** (attempt - 1),
+    policy.maxDelay
+  );
+
+  // Spread the delay evenly across +/- jitter
+  const offset = delay * policy.jitter * (random() * 2 - 1);
+
+  return Math.round(Math.max(0, delay + offset));
+}
+
+/**
+ * Run an operation, retrying it with backoff while it fails with a
+ * retryable error and attempts remain
+ * @param operation The operation to run
+ * @param policy The retry policy
+ * @param onRetry Called before waiting for each retry
+ * @returns The result of the first successful attempt
+ * @throws The last error if the operation cannot be retried
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (error: unknown, attempt: number, delay: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(policy, attempt);
+      onRetry?.(error, attempt, delay);
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
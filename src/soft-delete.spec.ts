@@ -0,0 +1,41 @@
+import { ConfigurationError } from './errors';
+import {
+  DEFAULT_SOFT_DELETE_POLICY,
+  resolveSoftDeletePolicies
+} from './soft-delete';
+
+describe('soft-delete', () => {
+  describe('resolveSoftDeletePolicies', () => {
+    it('should merge the settings of each label with the defaults', () => {
+      // Act
+      const policies = resolveSoftDeletePolicies({
+        User: true,
+        Invoice: { property: 'removedAt', relationships: 'hide' },
+        Session: false
+      });
+
+      // Assert
+      expect([...policies.entries()]).toEqual([
+        ['User', DEFAULT_SOFT_DELETE_POLICY],
+        ['Invoice', { property: 'removedAt', relationships: 'hide' }]
+      ]);
+    });
+
+    it.each([
+      ['an empty property', { property: '' }, 'softDelete.User.property'],
+      [
+        'an unknown relationship mode',
+        { relationships: 'archive' as 'keep' },
+        'softDelete.User.relationships'
+      ]
+    ])('should reject %s', (_description, policy, setting) => {
+      // Act & Assert
+      expect(() => resolveSoftDeletePolicies({ User: policy })).toThrow(
+        ConfigurationError
+      );
+      expect(() => resolveSoftDeletePolicies({ User: policy })).toThrow(
+        expect.objectContaining({ setting })
+      );
+    });
+  });
+});
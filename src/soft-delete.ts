@@ -0,0 +1,74 @@
+import { ConfigurationError } from './errors';
+
+/**
+ * Defines what happens to the relationships of a soft-deleted node
+ * - 'keep': The relationships are left as they are
+ * - 'detach': The relationships are deleted permanently
+ * - 'hide': The relationships are marked as deleted along with the node,
+ *   and are restored with it
+ */
+export type SoftDeleteRelationships = 'keep' | 'detach' | 'hide';
+
+/**
+ * Controls how the nodes of a label are soft-deleted
+ */
+export interface SoftDeletePolicy {
+  /**
+   * Property holding the time the node was deleted (default: 'deletedAt')
+   */
+  property: string;
+
+  /**
+   * What happens to the relationships of the node (default: 'keep')
+   */
+  relationships: SoftDeleteRelationships;
+}
+
+export const DEFAULT_SOFT_DELETE_POLICY: SoftDeletePolicy = {
+  property: 'deletedAt',
+  relationships: 'keep'
+};
+
+const relationshipModes: SoftDeleteRelationships[] = ['keep', 'detach', 'hide'];
+
+/**
+ * Merge the soft-delete settings of each label with the defaults and
+ * validate the result
+ * @param labels The settings keyed by label, or true to use the defaults
+ * @returns The complete policies keyed by label
+ * @throws ConfigurationError if a setting is invalid
+ */
+export function resolveSoftDeletePolicies(
+  labels: Record<string, Partial<SoftDeletePolicy> | boolean> = {}
+) {
+  const policies = new Map<string, SoftDeletePolicy>();
+
+  for (const [label, policy] of Object.entries(labels)) {
+    if (policy === false) {
+      continue;
+    }
+
+    const resolved = {
+      ...DEFAULT_SOFT_DELETE_POLICY,
+      ...(policy === true ? {} : policy)
+    };
+
+    if (typeof resolved.property !== 'string' || !resolved.property) {
+      throw new ConfigurationError(
+        `softDelete.${label}.property`,
+        'must be a property name'
+      );
+    }
+
+    if (!relationshipModes.includes(resolved.relationships)) {
+      throw new ConfigurationError(
+        `softDelete.${label}.relationships`,
+        `must be one of ${relationshipModes.join(', ')}`
+      );
+    }
+
+    policies.set(label, resolved);
+  }
+
+  return policies;
+}
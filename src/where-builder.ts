@@ -0,0 +1,258 @@
+/**
+ * A reference to a property on a node variable tracked by the query builder
+ * @example 'u.age'
+ */
+export type PropertyReference<Nodes extends string> = `${Nodes}.${string}`;
+
+/**
+ * A reference to the element ID assigned by the database to a node
+ * variable tracked by the query builder
+ * @example 'elementId(u)'
+ */
+export type ElementIdReference<Nodes extends string> = `elementId(${Nodes})`;
+
+/**
+ * A reference to a variable tracked by the query builder, one of its
+ * properties or its element ID
+ * @example 'total', 'u.age' or 'elementId(u)'
+ */
+export type Reference<Nodes extends string> =
+  | Nodes
+  | PropertyReference<Nodes>
+  | ElementIdReference<Nodes>;
+
+/**
+ * Only known to this module, so that conditions cannot be created
+ * outside of the `WhereBuilder`
+ * @private
+ */
+const conditionToken = Symbol('WhereCondition');
+
+/**
+ * A compiled Cypher condition which can be combined with other conditions
+ * or passed to `Neo4jQueryBuilder.where()`.  Conditions can only be created
+ * through the `WhereBuilder` so that every value is parameterized.
+ */
+export class WhereCondition {
+  /**
+   * @param token - The module private token of the `WhereBuilder`
+   * @param cypher - The compiled Cypher condition
+   * @throws Error if the condition is not created by the `WhereBuilder`
+   */
+  constructor(
+    private readonly token: typeof conditionToken,
+    readonly cypher: string
+  ) {
+    if (token !== conditionToken) {
+      throw new Error(
+        'Conditions can only be created through the WhereBuilder'
+      );
+    }
+  }
+}
+
+type ComparisonOperators =
+  | '='
+  | '<>'
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'IN'
+  | 'STARTS WITH'
+  | 'ENDS WITH'
+  | 'CONTAINS'
+  | '=~';
+
+/**
+ * Builds WHERE clause conditions for the `Neo4jQueryBuilder`.  Property references
+ * are validated against the node variables tracked by the builder and every
+ * value is stored as a query parameter.
+ *
+ * @example
+ * builder.where((w) => w.and(w.gt('u.age', 18), w.in('u.role', roles)))
+ */
+export class WhereBuilder<Nodes extends string> {
+  /**
+   * @param resolveReference - Validates a property reference and returns the Cypher expression for it
+   * @param addParameter - Stores a value in the query parameters and returns the parameter name
+   */
+  constructor(
+    private readonly resolveReference: (reference: string) => string,
+    private readonly addParameter: (name: string, value: unknown) => string
+  ) {}
+
+  /**
+   * Matches when the property is equal to the value
+   */
+  eq(property: Reference<Nodes>, value: unknown) {
+    return this.compare(property, '=', value);
+  }
+
+  /**
+   * Matches when the property is not equal to the value
+   */
+  neq(property: Reference<Nodes>, value: unknown) {
+    return this.compare(property, '<>', value);
+  }
+
+  /**
+   * Matches when the property is greater than the value
+   */
+  gt(property: Reference<Nodes>, value: unknown) {
+    return this.compare(property, '>', value);
+  }
+
+  /**
+   * Matches when the property is greater than or equal to the value
+   */
+  gte(property: Reference<Nodes>, value: unknown) {
+    return this.compare(property, '>=', value);
+  }
+
+  /**
+   * Matches when the property is less than the value
+   */
+  lt(property: Reference<Nodes>, value: unknown) {
+    return this.compare(property, '<', value);
+  }
+
+  /**
+   * Matches when the property is less than or equal to the value
+   */
+  lte(property: Reference<Nodes>, value: unknown) {
+    return this.compare(property, '<=', value);
+  }
+
+  /**
+   * Matches when the property is one of the provided values
+   */
+  in(property: Reference<Nodes>, values: unknown[]) {
+    return this.compare(property, 'IN', values);
+  }
+
+  /**
+   * Matches when the string property starts with the value
+   */
+  startsWith(property: Reference<Nodes>, value: string) {
+    return this.compare(property, 'STARTS WITH', value);
+  }
+
+  /**
+   * Matches when the string property ends with the value
+   */
+  endsWith(property: Reference<Nodes>, value: string) {
+    return this.compare(property, 'ENDS WITH', value);
+  }
+
+  /**
+   * Matches when the string property contains the value
+   */
+  contains(property: Reference<Nodes>, value: string) {
+    return this.compare(property, 'CONTAINS', value);
+  }
+
+  /**
+   * Matches when the string property matches the regular expression.  When a
+   * RegExp is provided, the case-insensitive flag is translated to `(?i)`
+   */
+  matches(property: Reference<Nodes>, pattern: string | RegExp) {
+    let expression = pattern;
+
+    if (pattern instanceof RegExp) {
+      expression = pattern.flags.includes('i')
+        ? `(?i)${pattern.source}`
+        : pattern.source;
+    }
+
+    return this.compare(property, '=~', expression);
+  }
+
+  /**
+   * Matches when the property is not set
+   */
+  isNull(property: Reference<Nodes>) {
+    return new WhereCondition(
+      conditionToken,
+      `${this.resolveReference(property)} IS NULL`
+    );
+  }
+
+  /**
+   * Matches when the property is set
+   */
+  isNotNull(property: Reference<Nodes>) {
+    return new WhereCondition(
+      conditionToken,
+      `${this.resolveReference(property)} IS NOT NULL`
+    );
+  }
+
+  /**
+   * Matches when all of the conditions match
+   */
+  and(...conditions: WhereCondition[]) {
+    return this.combine('AND', conditions);
+  }
+
+  /**
+   * Matches when any of the conditions match
+   */
+  or(...conditions: WhereCondition[]) {
+    return this.combine('OR', conditions);
+  }
+
+  /**
+   * Matches when the condition does not match
+   */
+  not(condition: WhereCondition) {
+    return new WhereCondition(conditionToken, `NOT (${condition.cypher})`);
+  }
+
+  /**
+   * Create a condition comparing a property to a parameterized value
+   * @private
+   */
+  private compare(
+    property: string,
+    operator: ComparisonOperators,
+    value: unknown
+  ) {
+    const expression = this.resolveReference(property);
+
+    // Parameter names follow the same `<node>_<property>` format used
+    // by the property selectors in the query builder
+    const elementId = /^elementId\((.*)\)$/.exec(property);
+    const paramKey = this.addParameter(
+      elementId
+        ? `${elementId[1]}_elementId`
+        : property.replace(/[^a-zA-Z0-9]/g, '_'),
+      value
+    );
+
+    return new WhereCondition(
+      conditionToken,
+      `${expression} ${operator} $${paramKey}`
+    );
+  }
+
+  /**
+   * Join a list of conditions using a logical operator.  The result is
+   * wrapped in parentheses so that it can be safely nested.
+   * @private
+   */
+  private combine(operator: 'AND' | 'OR', conditions: WhereCondition[]) {
+    if (conditions.length === 0) {
+      throw new Error(`${operator} requires at least one condition`);
+    }
+
+    if (conditions.length === 1) {
+      return conditions[0];
+    }
+
+    return new WhereCondition(
+      conditionToken,
+      `(${conditions.map((condition) => condition.cypher).join(` ${operator} `)})`
+    );
+  }
+}